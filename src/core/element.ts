@@ -0,0 +1,180 @@
+import type { LightOdometer } from "./odometer"
+import type {
+  LightOdometerEventName,
+  LightOdometerOptions,
+} from "../shared/interfaces"
+
+import { isBrowser } from "../utils/utilities"
+
+/** Attributes mapped onto the odometer, `value` goes through `update()` and the others through `setOptions()` */
+const OBSERVED_ATTRIBUTES = [ "value", "format", "duration", "animation", "framerate", "theme", "alphabet" ] as const
+
+/** Events re-dispatched from the custom element itself */
+const FORWARDED_EVENTS: LightOdometerEventName[] = [
+  "odometerstart",
+  "odometerdone",
+  "odometerinterrupt",
+  "odometerlayout",
+  "odometerframe",
+  "odometercancel",
+  "odometeroptionschange",
+  "odometerdestroy",
+  "odometerpause",
+  "odometerresume",
+  "odometerseek",
+  "odometerset",
+  "odometerhydrationmismatch",
+]
+
+/**
+ * Converts some of the element's attributes into odometer options.
+ * Missing attributes become `undefined` so the odometer falls back to its defaults.
+ * @param {HTMLElement} element - The custom element to read the attributes from.
+ * @param {readonly string[]} names - The attributes to convert.
+ * @returns {Partial<LightOdometerOptions>} The options described by the attributes.
+ */
+function optionsFromAttributes(element: HTMLElement, names: readonly string[]): Partial<LightOdometerOptions> {
+  const options: Partial<LightOdometerOptions> = {}
+  const numeric = (name: string) => {
+    const attribute = element.getAttribute(name)
+
+    return attribute == null
+      ? undefined
+      : Number(attribute)
+  }
+
+  for (const name of names) {
+    switch (name) {
+      case "format":
+        options.format = element.getAttribute("format") ?? undefined
+
+        break
+      case "duration":
+        options.duration = numeric("duration")
+
+        break
+      case "framerate":
+        options.framerate = numeric("framerate")
+
+        break
+      case "animation":
+        options.animation = element.getAttribute("animation") === "count"
+          ? "count"
+          : "slide"
+
+        break
+      case "theme":
+        options.theme = element.getAttribute("theme") ?? undefined
+
+        break
+      case "alphabet":
+        options.alphabet = element.getAttribute("alphabet") ?? undefined
+
+        break
+      default:
+        break
+    }
+  }
+
+  return options
+}
+
+/**
+ * Defines the `<light-odometer>` custom element, unless the tag name is already taken.
+ * The element renders an odometer in a child element (inside an open shadow root when it has the `shadow` attribute), maps its observed attributes onto it and re-dispatches its events.
+ * @param {typeof LightOdometer} LightOdometerClass - The `LightOdometer` class backing the element.
+ * @param {string} tagName - The tag name to register.
+ * @returns {CustomElementConstructor | undefined} The element constructor, or `undefined` outside of the browser.
+ */
+function defineLightOdometerElement(LightOdometerClass: typeof LightOdometer, tagName: string): CustomElementConstructor | undefined {
+  if (!isBrowser() || typeof customElements === "undefined") {
+    return undefined
+  }
+
+  const existing = customElements.get(tagName)
+
+  if (existing) {
+    return existing
+  }
+
+  class LightOdometerElement extends HTMLElement {
+    static observedAttributes: readonly string[] = OBSERVED_ATTRIBUTES
+
+    private _mount?: HTMLElement
+    private _value?: number
+    private _forward = (ev: Event) => {
+      if (!(ev instanceof CustomEvent)) {
+        return
+      }
+
+      // Stop the original so listeners on the page only see the element's own event
+      ev.stopPropagation()
+      this.dispatchEvent(new CustomEvent(ev.type, {
+        bubbles: true, cancelable: true, composed: true, detail: ev.detail,
+      }))
+    }
+
+    /** The odometer's current value */
+    get value(): number {
+      return this.odometer?.value ?? this._value ?? 0
+    }
+
+    set value(value: number | string) {
+      this.setAttribute("value", String(value))
+    }
+
+    connectedCallback(): void {
+      if (this.shadowRoot == null && this.hasAttribute("shadow")) {
+        this.attachShadow({ mode: "open" })
+      }
+
+      // The text content is the initial value when there is no value attribute, like `.odometer` elements
+      const value = this.getAttribute("value") ?? this._value ?? this.textContent?.trim() ?? 0
+      const root = this.shadowRoot ?? this
+
+      // A fresh mount on every connection, the previous one had its properties wrapped by a now disconnected odometer
+      this._mount?.remove()
+      this._mount = document.createElement("span")
+
+      if (root === this) {
+        this.textContent = ""
+      }
+
+      root.appendChild(this._mount)
+
+      for (const event of FORWARDED_EVENTS) {
+        this._mount.addEventListener(event, this._forward)
+      }
+
+      this.odometer = new LightOdometerClass({
+        ...optionsFromAttributes(this, OBSERVED_ATTRIBUTES),
+        el: this._mount,
+        value,
+      })
+    }
+
+    disconnectedCallback(): void {
+      this._value = this.odometer?.value
+      this.odometer?.disconnect()
+      this.odometer = undefined
+    }
+
+    attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+      if (!this.odometer || oldValue === newValue) {
+        return
+      }
+
+      if (name === "value") {
+        this.odometer.update(newValue ?? 0)
+      } else {
+        this.odometer.setOptions(optionsFromAttributes(this, [name]))
+      }
+    }
+  }
+
+  customElements.define(tagName, LightOdometerElement)
+
+  return LightOdometerElement
+}
+
+export { defineLightOdometerElement }
@@ -0,0 +1,690 @@
+import type {
+  CompactValue,
+  DecimalString,
+  FormatObject,
+  LightOdometerValue,
+  MarkupPart,
+} from "../shared/interfaces"
+
+import {
+  COMPACT_UNITS,
+  DIGIT_ALPHABET,
+  DIGIT_FORMAT,
+  FORMAT_PARSER,
+} from "../shared/settings"
+
+import {
+  DIGIT_HTML,
+  FORMAT_MARK_HTML,
+  VALUE_HTML,
+} from "../shared/templates"
+
+import {
+  absolute,
+  formatDecimal,
+  parseDecimal,
+} from "../utils/decimal"
+
+import { round } from "../utils/utilities"
+
+// A decimal digit of any script (i.e. '٣' or '३')
+const NATIVE_DIGIT = /^\p{Nd}$/u
+
+// Glyphs of the numbering systems already looked up, formats are parsed on every render
+const NUMERALS = new Map<string, string[] | undefined>()
+
+/**
+ * Parses a format string of the mini-language (i.e. '(,ddd).dd').
+ * @param {string} [format] - The format string. Defaults to `DIGIT_FORMAT`.
+ * @param {string} [alphabet] - The symbols of the digits, from zero up. Values are displayed as whole numbers with a custom alphabet.
+ * @param {string} [numberingSystem] - The numbering system whose glyphs display decimal digits (i.e. 'arab'). Ignored with a custom alphabet.
+ * @returns {FormatObject} The repeating part, radix symbol and precision of the format.
+ * @throws {Error} If the format string can't be parsed, or the alphabet is invalid.
+ */
+function parseFormat(format?: string, alphabet?: string, numberingSystem?: string): FormatObject {
+  const parsed = FORMAT_PARSER.exec((format ?? DIGIT_FORMAT) || "d")
+
+  if (!parsed) {
+    throw new Error("LightOdometer: Unparsable digit format")
+  }
+
+  const repeating = parsed[1] ?? ""
+  const radix = parsed[2]
+  const fractional = parsed[3] ?? ""
+  const symbols = parseAlphabet(alphabet)
+
+  // Fractional digits only exist in base 10
+  if (symbols) {
+    return {
+      repeating, precision: 0, alphabet: symbols,
+    }
+  }
+
+  return {
+    repeating, radix, precision: fractional.length, numerals: getNumerals(numberingSystem),
+  }
+}
+
+/**
+ * Gets the glyphs a numbering system uses for the digits 0 to 9.
+ * @param {string} [numberingSystem] - The Unicode numbering system identifier (i.e. 'arab', 'deva', 'thai').
+ * @returns {string[] | undefined} The ten glyphs, or `undefined` for Latin digits and numbering systems the browser doesn't support.
+ */
+function getNumerals(numberingSystem?: string): string[] | undefined {
+  if (!numberingSystem || numberingSystem === "latn") {
+    return undefined
+  }
+
+  if (NUMERALS.has(numberingSystem)) {
+    return NUMERALS.get(numberingSystem)
+  }
+
+  const intl = new Intl.NumberFormat("en-US", {
+    numberingSystem, useGrouping: false,
+  })
+  const numerals = intl.resolvedOptions().numberingSystem === numberingSystem
+    ? DIGIT_ALPHABET.split("")
+      .map((digit) => intl.format(Number(digit)))
+    : undefined
+
+  NUMERALS.set(numberingSystem, numerals)
+
+  return numerals
+}
+
+/**
+ * Replaces the decimal digits of any script with Latin ones, so they can be parsed.
+ * Unicode lays every script's digits out in runs of ten starting from zero, so a digit's value is its distance to the start of its run.
+ * @param {string} val - The string to convert.
+ * @returns {string} The string with Latin digits.
+ */
+function toLatinDigits(val: string): string {
+  return val.replace(/\p{Nd}/gu, (chr) => {
+    const code = chr.codePointAt(0) ?? 0
+    let zero = code
+
+    while (NATIVE_DIGIT.test(String.fromCodePoint(zero - 1))) {
+      zero--
+    }
+
+    return String((code - zero) % 10)
+  })
+}
+
+/**
+ * Checks the symbols of a custom alphabet.
+ * @param {string} [alphabet] - The symbols of the digits, from zero up (i.e. '0123456789ABCDEF').
+ * @returns {string | undefined} The alphabet, or `undefined` when digits are the usual decimal ones.
+ * @throws {Error} If the alphabet has less than two symbols, repeats a symbol or contains the minus sign.
+ */
+function parseAlphabet(alphabet?: string): string | undefined {
+  if (!alphabet || alphabet === DIGIT_ALPHABET) {
+    return undefined
+  }
+
+  const symbols = alphabet.split("")
+
+  if (symbols.length < 2 || new Set(symbols).size !== symbols.length || symbols.includes("-")) {
+    throw new Error("LightOdometer: Alphabets need at least two distinct symbols, other than the minus sign")
+  }
+
+  return alphabet
+}
+
+/**
+ * Reads the format configuration of an `Intl.NumberFormat`: its radix symbol, precision and scale.
+ * @param {Intl.NumberFormat} intl - The formatter.
+ * @returns {FormatObject} The format configuration, with an empty repeating part.
+ */
+function getIntlFormat(intl: Intl.NumberFormat): FormatObject {
+  const resolved = intl.resolvedOptions()
+  // The main formatter may round away the decimal part, so ask the same locale for a fractional sample
+  const radix = new Intl.NumberFormat(resolved.locale, {
+    numberingSystem: resolved.numberingSystem, minimumFractionDigits: 1,
+  })
+    .formatToParts(1.5)
+    .find((part) => part.type === "decimal")?.value
+
+  return {
+    repeating: "",
+    radix,
+    precision: resolved.maximumFractionDigits ?? 0,
+    numerals: getNumerals(resolved.numberingSystem),
+    scale: resolved.style === "percent"
+      ? 100
+      : 1,
+  }
+}
+
+/**
+ * Normalizes a formatted numeric string so it can be parsed: the radix symbol becomes a dot, grouping characters are removed and dashes become minus signs.
+ * @param {string} val - The formatted string.
+ * @param {FormatObject} format - The format the string was written in.
+ * @returns {string} The normalized string.
+ */
+function normalizeNumericString(val: string, format: FormatObject): string {
+  // Prefix and suffix may contain the radix symbol or digits, they go first
+  val = toLatinDigits(stripAffixes(val, format))
+
+  // We need to normalize the format so we can properly turn it into a number.
+  val = val.replace(format.radix ?? ".", "<radix>")
+  val = val.replace(/[.,'\s\u00A0\u202F\u2019\u066C]/g, "")
+  // Intl.NumberFormat may use a real minus sign or a dash depending on the locale
+  val = val.replace(/[\u2012\u2013\u2212]/, "-")
+
+  return val.replace("<radix>", ".")
+}
+
+/**
+ * Removes the format prefix and suffix from a formatted string. The prefix may come before or after the minus sign.
+ * @param {string} val - The formatted string.
+ * @param {FormatObject} format - The format the string was written in.
+ * @returns {string} The trimmed string without its prefix and suffix.
+ */
+function stripAffixes(val: string, format: FormatObject): string {
+  val = val.trim()
+
+  if (format.prefix) {
+    val = val.replace(format.prefix, "")
+  }
+
+  if (format.suffix && val.endsWith(format.suffix)) {
+    val = val.slice(0, val.length - format.suffix.length)
+  }
+
+  return val
+}
+
+/**
+ * Writes the absolute value of an integer with the symbols of an alphabet, its length being the base.
+ * @param {bigint} value - The integer to write.
+ * @param {string} alphabet - The symbols of the digits, from zero up.
+ * @returns {string} The symbols of the value, most significant first.
+ */
+function encodeAlphabet(value: bigint, alphabet: string): string {
+  const base = BigInt(alphabet.length)
+  let rest = absolute(value)
+  let text = ""
+
+  do {
+    text = `${alphabet[Number(rest % base)] ?? ""}${text}`
+    rest /= base
+  } while (rest)
+
+  return text
+}
+
+/**
+ * Reads an integer written with the symbols of an alphabet.
+ * Characters outside of the alphabet (i.e. grouping marks) are skipped, and letters fall back to the other case when the alphabet only has one.
+ * @param {string} val - The string to read, optionally starting with a minus sign.
+ * @param {string} alphabet - The symbols of the digits, from zero up.
+ * @returns {bigint} The integer.
+ */
+function decodeAlphabet(val: string, alphabet: string): bigint {
+  const base = BigInt(alphabet.length)
+  const negative = (/^[-\u2012\u2013\u2212]/).test(val)
+  let value = 0n
+
+  for (const chr of val.split("")) {
+    let index = alphabet.indexOf(chr)
+
+    if (index < 0) {
+      index = alphabet.indexOf(chr.toUpperCase())
+    }
+
+    if (index < 0) {
+      index = alphabet.indexOf(chr.toLowerCase())
+    }
+
+    if (index >= 0) {
+      value = (value * base) + BigInt(index)
+    }
+  }
+
+  return negative
+    ? -value
+    : value
+}
+
+/**
+ * Gets how many fractional digits values hold: the format precision, plus the digits added by the format scale for percents.
+ * @param {FormatObject} format - The format.
+ * @returns {number} The number of fractional digits.
+ */
+function getValueDigits(format: FormatObject): number {
+  return format.precision + Math.round(Math.log10(format.scale ?? 1))
+}
+
+/**
+ * Turns a value into an integer holding the given amount of fractional digits.
+ * Numbers go through their shortest string form rather than a float multiplication, so 0.285 doesn't become 28.499999999999996 hundredths.
+ * @param {number | bigint | DecimalString} value - The value to convert.
+ * @param {number} digits - The number of fractional digits to keep.
+ * @returns {bigint} The value multiplied by `10 ** digits`.
+ */
+function toScaledInteger(value: number | bigint | DecimalString, digits: number): bigint {
+  if (typeof value === "bigint") {
+    return value * (10n ** BigInt(digits))
+  }
+
+  if (typeof value === "string") {
+    return parseDecimal(value, digits)
+  }
+
+  return Number.isFinite(value)
+    ? parseDecimal(String(value), digits)
+    : 0n
+}
+
+/**
+ * Cleans and normalizes a value to ensure it can be processed as a number.
+ * Converts formatted strings into numeric values by handling radix symbols and removing unnecessary characters.
+ * @param {LightOdometerValue} val - The value to clean and normalize.
+ * @param {FormatObject} format - The format the value is displayed with.
+ * @returns {number} The cleaned and rounded numeric value.
+ */
+function cleanNumber(val: LightOdometerValue, format: FormatObject): number {
+  if (typeof val === "bigint") {
+    val = Number(val)
+  } else if (typeof val === "string" && format.alphabet) {
+    val = Number(decodeAlphabet(stripAffixes(val, format), format.alphabet))
+  } else if (typeof val === "string") {
+    val = (parseFloat(normalizeNumericString(val, format)) || 0) / (format.scale ?? 1)
+  }
+
+  const scale = format.scale ?? 1
+
+  return round(val * scale, format.precision) / scale
+}
+
+/**
+ * Converts an already cleaned value into an exact decimal string holding the format precision digits.
+ * @param {number | bigint | DecimalString} value - The value to convert.
+ * @param {FormatObject} format - The format the value is displayed with.
+ * @returns {DecimalString} The value as a decimal string.
+ */
+function toDecimal(value: number | bigint | DecimalString, format: FormatObject): DecimalString {
+  const digits = getValueDigits(format)
+
+  return formatDecimal(toScaledInteger(value, digits), digits)
+}
+
+/**
+ * Cleans and normalizes a value without going through floats.
+ * Formatted strings are normalized like in `cleanNumber()`, then rounded to the format precision with string and BigInt arithmetic.
+ * @param {LightOdometerValue} val - The value to clean and normalize.
+ * @param {FormatObject} format - The format the value is displayed with.
+ * @returns {DecimalString} The cleaned value as a decimal string holding exactly the precision digits.
+ */
+function cleanDecimal(val: LightOdometerValue, format: FormatObject): DecimalString {
+  if (typeof val !== "string") {
+    return toDecimal(val, format)
+  }
+
+  const digits = getValueDigits(format)
+
+  if (format.alphabet) {
+    return formatDecimal(decodeAlphabet(stripAffixes(val, format), format.alphabet), digits)
+  }
+
+  // Percents are typed in their displayed form (i.e. '50%' is 0.5), so the decimal point moves back by the scale digits
+  const scaleDigits = Math.round(Math.log10(format.scale ?? 1))
+
+  return formatDecimal(parseDecimal(normalizeNumericString(val, format), digits - scaleDigits), digits)
+}
+
+/**
+ * Ensures the value maintains the specified precision by adding trailing zeros if necessary.
+ * This is used to keep the decimal places consistent at the end of the animation.
+ * @param {number | DecimalString} value - The value to format with preserved precision.
+ * @param {FormatObject} format - The format the value is displayed with.
+ * @returns {string} The value as a string with the required precision.
+ */
+function preservePrecision(value: number | DecimalString, format: FormatObject): string {
+  // Exact decimal strings already hold all the precision digits
+  if (typeof value === "string") {
+    return value
+  }
+
+  // This function fixes the precision at the end of the animation keeping the decimal places even if we have 0 digits only
+  let fixedValue: string = value.toString()
+
+  if (format.precision) {
+    const parts = fixedValue.split(".")
+
+    if (parts.length === 1) {
+      fixedValue += "."
+      parts[1] = ""
+    }
+
+    const fractionalPart = parts[1] ?? ""
+
+    for (let i = 0; i < format.precision; i++) {
+      if (!fractionalPart[i]) {
+        fixedValue += "0"
+      }
+    }
+  }
+
+  return fixedValue
+}
+
+/**
+ * Divides a value by a power of ten and rounds it to the format precision, exactly for decimal strings.
+ * @param {number | DecimalString} value - The value to divide.
+ * @param {number} exponent - The power of ten.
+ * @param {FormatObject} format - The format the result is displayed with.
+ * @returns {number | DecimalString} The rounded quotient.
+ */
+function shiftValue(value: number | DecimalString, exponent: number, format: FormatObject): number | DecimalString {
+  if (typeof value === "number") {
+    return cleanNumber(value / Math.pow(10, exponent), format)
+  }
+
+  const digits = getValueDigits(format)
+
+  return toDecimal(formatDecimal(toScaledInteger(value, digits), digits + exponent), format)
+}
+
+/**
+ * Splits a value into the mantissa and unit of the compact notation (i.e. 1234 is 1.2 and 'K' with a single decimal).
+ * Without `Intl.NumberFormat`, units come from `COMPACT_UNITS`. With it, the locale picks the unit and the power of ten (i.e. '万' for 10^4 in Japanese), the mantissa is still rounded to the format precision.
+ * @param {number | DecimalString} value - The value to split.
+ * @param {FormatObject} format - The format the mantissa is displayed with.
+ * @param {Intl.NumberFormat} [compactIntl] - An `Intl.NumberFormat` using the compact notation.
+ * @returns {CompactValue} The mantissa, unit and power of ten of the unit.
+ */
+function splitCompact(value: number | DecimalString, format: FormatObject, compactIntl?: Intl.NumberFormat): CompactValue {
+  const magnitude = Math.abs(Number(value))
+
+  if (compactIntl) {
+    const parts = compactIntl.formatToParts(magnitude)
+    const index = parts.findIndex((part) => part.type === "compact")
+    const compact = parts[index]
+
+    if (!compact) {
+      return {
+        mantissa: value, unit: "", exponent: 0,
+      }
+    }
+
+    const integer = parts.filter((part) => part.type === "integer")
+      .map((part) => part.value)
+      .join("")
+    const fraction = parts.find((part) => part.type === "fraction")?.value ?? "0"
+    const shown = Number(`${integer}.${fraction}`)
+    const exponent = shown
+      ? Math.round(Math.log10(magnitude / shown))
+      : 0
+    // Keep the space some locales put between the number and the unit
+    const before = parts[index - 1]
+    const unit = before?.type === "literal"
+      ? `${before.value}${compact.value}`
+      : compact.value
+
+    return {
+      mantissa: shiftValue(value, exponent, format), unit, exponent,
+    }
+  }
+
+  let index = 0
+
+  while (index < COMPACT_UNITS.length - 1 && magnitude >= Math.pow(10, 3 * (index + 1))) {
+    index++
+  }
+
+  let mantissa = shiftValue(value, 3 * index, format)
+
+  // Rounding can push the mantissa to the next unit (999,950 is 1000.0K, so 1.0M)
+  if (index < COMPACT_UNITS.length - 1 && Math.abs(Number(mantissa)) >= 1000) {
+    index++
+    mantissa = shiftValue(value, 3 * index, format)
+  }
+
+  return {
+    mantissa, unit: COMPACT_UNITS[index] ?? "", exponent: 3 * index,
+  }
+}
+
+/**
+ * Splits a part produced by `Intl.NumberFormat.formatToParts()` into digits and formatting marks.
+ * Integer and fraction parts become digits, decimal and minus signs get their mark classes, every other part (grouping, currency, percent, literals) becomes a plain formatting mark.
+ * @param {Intl.NumberFormatPart} part - The part to split.
+ * @param {string} [fill] - Character displayed in every digit instead of the part's own digits. Used when laying out ribbons.
+ * @returns {MarkupPart[]} The digits and marks, in reading order.
+ */
+function getIntlMarkupParts(part: Intl.NumberFormatPart, fill?: string): MarkupPart[] {
+  switch (part.type) {
+    case "integer":
+    case "fraction":
+      return part.value.split("")
+        .map((chr) => ({
+          value: fill ?? chr, digit: true,
+        }))
+    case "decimal":
+      return [ {
+        value: part.value, digit: false, className: "odometer-radix-mark",
+      } ]
+    case "minusSign":
+      return [ {
+        value: part.value, digit: false, className: "odometer-negation-mark",
+      } ]
+    default:
+      return [ {
+        value: part.value, digit: false,
+      } ]
+  }
+}
+
+/**
+ * Splits a value into the digits and formatting marks displayed by a static odometer, surrounded by the compact unit, the format prefix and suffix.
+ * The prefix follows a leading minus sign, the way `stripAffixes()` also reads it.
+ * @param {number | DecimalString} value - The value to split.
+ * @param {FormatObject} format - The format the value is displayed with.
+ * @param {object} [formatters] - The custom format function and `Intl.NumberFormat` of the odometer, if any.
+ * @param {(value: number) => string} [formatters.formatFunction] - The custom format function.
+ * @param {Intl.NumberFormat} [formatters.intl] - The `Intl.NumberFormat`.
+ * @param {'standard' | 'compact'} [formatters.notation] - Whether the value is displayed with the compact notation.
+ * @param {Intl.NumberFormat} [formatters.compactIntl] - The `Intl.NumberFormat` picking the compact units, if any.
+ * @returns {MarkupPart[]} The digits and marks, in reading order.
+ * @throws {Error} If the repeating part of the format has no digit.
+ */
+function getMarkupParts(
+  value: number | DecimalString,
+  format: FormatObject,
+  formatters?: {
+    formatFunction?: (value: number) => string;
+    intl?: Intl.NumberFormat;
+    notation?: "standard" | "compact";
+    compactIntl?: Intl.NumberFormat;
+  },
+): MarkupPart[] {
+  // Compact units only make sense for decimal digits
+  const compact = formatters?.notation === "compact" && !format.alphabet
+    ? splitCompact(value, format, formatters.compactIntl)
+    : undefined
+  const parts = getValueMarkupParts(compact?.mantissa ?? value, format, formatters)
+
+  if (compact?.unit) {
+    parts.push({
+      value: compact.unit, digit: false, className: "odometer-compact-mark",
+    })
+  }
+
+  if (format.prefix) {
+    // Negative values read '-$5.00', the prefix goes after a leading minus sign
+    const negative = parts[0]?.className === "odometer-negation-mark"
+
+    parts.splice(negative
+      ? 1
+      : 0, 0, {
+      value: format.prefix, digit: false, className: "odometer-prefix",
+    })
+  }
+
+  if (format.suffix) {
+    parts.push({
+      value: format.suffix, digit: false, className: "odometer-suffix",
+    })
+  }
+
+  return parts
+}
+
+/**
+ * Splits a value into its digits and formatting marks.
+ * The value goes through `formatFunction` if set, then `Intl.NumberFormat` if set, then the format mini-language.
+ * @param {number | DecimalString} value - The value to split.
+ * @param {FormatObject} format - The format the value is displayed with.
+ * @param {object} [formatters] - The custom format function and `Intl.NumberFormat` of the odometer, if any.
+ * @param {(value: number) => string} [formatters.formatFunction] - The custom format function.
+ * @param {Intl.NumberFormat} [formatters.intl] - The `Intl.NumberFormat`.
+ * @returns {MarkupPart[]} The digits and marks, in reading order.
+ * @throws {Error} If the repeating part of the format has no digit.
+ */
+function getValueMarkupParts(
+  value: number | DecimalString,
+  format: FormatObject,
+  formatters?: {
+    formatFunction?: (value: number) => string;
+    intl?: Intl.NumberFormat;
+  },
+): MarkupPart[] {
+  if (formatters?.formatFunction) {
+    return formatters.formatFunction(Number(value))
+      .split("")
+      .map((chr) => ({
+        value: chr,
+        digit: format.alphabet
+          ? format.alphabet.includes(chr)
+          : NATIVE_DIGIT.test(chr),
+      }))
+  }
+
+  if (formatters?.intl) {
+    return formatters.intl.formatToParts(value)
+      .flatMap((part) => getIntlMarkupParts(part))
+  }
+
+  // Built from the least significant digit, so the repeating part is consumed from its end
+  const parts: MarkupPart[] = []
+  let repeating = format.repeating
+  let wholePart = !format.precision
+  const text = format.alphabet
+    ? `${Number(value) < 0
+      ? "-"
+      : ""}${encodeAlphabet(toScaledInteger(value, 0), format.alphabet)}`
+    : preservePrecision(value, format)
+
+  for (const chr of text.split("")
+    .toReversed()) {
+    if (chr === "-") {
+      parts.push({
+        value: chr, digit: false, className: "odometer-negation-mark",
+      })
+
+      continue
+    }
+
+    if (chr === ".") {
+      wholePart = true
+      parts.push({
+        value: format.radix ?? ".", digit: false, className: "odometer-radix-mark",
+      })
+
+      continue
+    }
+
+    if (wholePart) {
+      let resetted = false
+
+      while (true) {
+        if (!repeating.length) {
+          if (resetted) {
+            throw new Error("Bad odometer format without digits")
+          }
+
+          repeating = format.repeating
+          resetted = true
+        }
+
+        const mark = repeating[repeating.length - 1] ?? ""
+
+        repeating = repeating.substring(0, repeating.length - 1)
+
+        if (mark === "d") {
+          break
+        }
+
+        parts.push({
+          value: mark, digit: false,
+        })
+      }
+    }
+
+    parts.push({
+      value: format.numerals?.[Number(chr)] ?? chr, digit: true,
+    })
+  }
+
+  return parts.toReversed()
+}
+
+/**
+ * Escapes text the way browsers serialize it in `innerHTML`, so rendered markup can be compared with the DOM.
+ * @param {string} text - The text to escape.
+ * @returns {string} The escaped text.
+ */
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, "&amp;")
+    .replace(/\u00A0/g, "&nbsp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+}
+
+/**
+ * Turns digits and formatting marks into the HTML a static odometer renders inside its `odometer-inside` container.
+ * @param {MarkupPart[]} parts - The digits and marks, in reading order.
+ * @returns {string} The HTML string.
+ */
+function renderMarkup(parts: MarkupPart[]): string {
+  let html = ""
+
+  for (const part of parts) {
+    if (part.digit) {
+      // Replacer functions keep `$&` and the like in the text from being expanded
+      html += DIGIT_HTML.replace(
+        VALUE_HTML,
+        () => `<span class="odometer-value odometer-first-value odometer-last-value">${escapeHTML(part.value)}</span>`,
+      )
+    } else {
+      const className = part.className
+        ? `odometer-formatting-mark ${part.className}`
+        : "odometer-formatting-mark"
+
+      html += FORMAT_MARK_HTML.replace("odometer-formatting-mark\"></span>", () => `${className}">${escapeHTML(part.value)}</span>`)
+    }
+  }
+
+  return html
+}
+
+export {
+  cleanDecimal,
+  cleanNumber,
+  decodeAlphabet,
+  escapeHTML,
+  getIntlFormat,
+  getIntlMarkupParts,
+  getMarkupParts,
+  getValueDigits,
+  normalizeNumericString,
+  parseFormat,
+  preservePrecision,
+  renderMarkup,
+  splitCompact,
+  toDecimal,
+  toLatinDigits,
+  toScaledInteger,
+}
@@ -0,0 +1,251 @@
+import type { LightOdometer } from "./odometer"
+import type {
+  LightOdometerCancelDetail,
+  LightOdometerEventDetail,
+  LightOdometerGroupEntry,
+  LightOdometerGroupEventDetail,
+  LightOdometerGroupEventMap,
+  LightOdometerGroupOptions,
+  LightOdometerGroupValues,
+  LightOdometerScheduler,
+} from "../shared/interfaces"
+
+import { DURATION } from "../shared/settings"
+
+import { BROWSER_SCHEDULER } from "../utils/scheduler"
+
+import { isBrowser } from "../utils/utilities"
+
+/**
+ * Several odometers animating in lockstep, i.e. the hours, minutes and seconds of a clock.
+ * Members are updated through a single call, start at the same time (or one after the other with `stagger`) for the same duration, and the group reports when all of them are done.
+ */
+export class LightOdometerGroup {
+  members: LightOdometer[] = []
+  options: LightOdometerGroupOptions
+
+  /** Element the group events are dispatched on: the `el` option, or a detached one */
+  el?: HTMLElement
+
+  private _batch?: LightOdometerGroupEventDetail
+  private _pending: Set<LightOdometer> = new Set()
+  private _onSettled = (ev: CustomEvent<LightOdometerEventDetail>) => {
+    this.settle(ev.detail.instance)
+  }
+  private _onCancel = (ev: CustomEvent<LightOdometerCancelDetail>) => {
+    // A superseded animation is replaced by a newer one, which will settle later
+    if (ev.detail.reason === "disconnected") {
+      this.settle(ev.detail.instance)
+    }
+  }
+
+  /**
+   * Creates a group out of existing odometers.
+   * @param {LightOdometer[]} members - The odometers to animate together, in order.
+   * @param {LightOdometerGroupOptions} [options] - The shared duration, the stagger and the element receiving the group events.
+   */
+  constructor(members: LightOdometer[], options: LightOdometerGroupOptions = {}) {
+    this.options = { ...options }
+    this.el = options.el ?? (isBrowser()
+      ? document.createElement("div")
+      : undefined)
+
+    for (const member of members) {
+      this.add(member)
+    }
+  }
+
+  /**
+   * Adds an odometer to the group, applying the group's `duration` to it.
+   * @param {LightOdometer} member - The odometer to add.
+   * @returns {void}
+   */
+  add(member: LightOdometer): void {
+    if (this.members.includes(member)) {
+      return
+    }
+
+    this.members.push(member)
+    member.on("odometerdone", this._onSettled)
+    member.on("odometerset", this._onSettled)
+    member.on("odometercancel", this._onCancel)
+
+    const { duration } = this.options
+
+    if (duration != null && member.options.duration !== duration) {
+      member.setOptions({ duration })
+    }
+  }
+
+  /**
+   * Removes an odometer from the group. The current batch no longer waits for it.
+   * @param {LightOdometer} member - The odometer to remove.
+   * @returns {void}
+   */
+  remove(member: LightOdometer): void {
+    const index = this.members.indexOf(member)
+
+    if (index === -1) {
+      return
+    }
+
+    this.members.splice(index, 1)
+    member.off("odometerdone", this._onSettled)
+    member.off("odometerset", this._onSettled)
+    member.off("odometercancel", this._onCancel)
+    this.settle(member)
+  }
+
+  /**
+   * Gets the duration shared by the members' animations.
+   * @returns {number} The `duration` option, or the first member's duration.
+   */
+  getDuration(): number {
+    return this.options.duration ?? this.members[0]?.options.duration ?? DURATION
+  }
+
+  /**
+   * Gets the clock the shared start time is read from.
+   * @returns {LightOdometerScheduler} The `scheduler` option, or the first member's scheduler.
+   */
+  getScheduler(): LightOdometerScheduler {
+    return this.options.scheduler ?? this.members[0]?.getScheduler() ?? BROWSER_SCHEDULER
+  }
+
+  /**
+   * Updates several members at once, their animations sharing a single start time.
+   * With `stagger`, each member starts that much later than the previous one.
+   * Dispatches `odometergroupstart`, then `odometergroupdone` once every updated member has settled. A newer update supersedes the batch, which then never reports done.
+   * @param {LightOdometerGroupValues} values - The new values, by member index or by member `id`.
+   * @returns {number[]} The updated values of the members, in order.
+   */
+  update(values: LightOdometerGroupValues): number[] {
+    const batch: LightOdometerGroupEntry[] = []
+
+    for (const [ i, member ] of this.members.entries()) {
+      const { id } = member.options
+      const value = Array.isArray(values)
+        ? values[i]
+        : id == null
+          ? undefined
+          : values[id]
+
+      if (value != null) {
+        batch.push({
+          member,
+          value,
+        })
+      }
+    }
+
+    this._batch = undefined
+    this._pending.clear()
+
+    const start = this.getScheduler().now()
+    const stagger = this.options.stagger ?? 0
+
+    for (const [ i, { member, value } ] of batch.entries()) {
+      member.set(value, { start: start + (i * stagger) })
+    }
+
+    const members = batch.map(({ member }) => member)
+    const detail: LightOdometerGroupEventDetail = {
+      group: this,
+      members,
+      values: members.map((member) => member.value),
+      start,
+      duration: this.getDuration(),
+    }
+
+    // Members with nothing to animate are settled already
+    this._batch = detail
+    this._pending = new Set(members.filter((member) => member.isAnimating))
+    this.emit("odometergroupstart", detail)
+
+    if (!this._pending.size) {
+      this._batch = undefined
+      this.emit("odometergroupdone", detail)
+    }
+
+    return this.members.map((member) => member.value)
+  }
+
+  /**
+   * Marks a member of the current batch as done, and dispatches `odometergroupdone` once they all are.
+   * @param {LightOdometer} member - The member that settled.
+   * @returns {void}
+   */
+  settle(member: LightOdometer): void {
+    const detail = this._batch
+
+    if (!detail || !this._pending.delete(member) || this._pending.size) {
+      return
+    }
+
+    this._batch = undefined
+    this.emit("odometergroupdone", detail)
+  }
+
+  /**
+   * Pauses every member's animation.
+   * @returns {void}
+   */
+  pause(): void {
+    for (const member of this.members) {
+      member.pause()
+    }
+  }
+
+  /**
+   * Resumes every member's animation.
+   * @returns {void}
+   */
+  resume(): void {
+    for (const member of this.members) {
+      member.resume()
+    }
+  }
+
+  /**
+   * Ends every member's animation right away.
+   * @returns {void}
+   */
+  finish(): void {
+    for (const member of this.members) {
+      member.finish()
+    }
+  }
+
+  /**
+   * Removes every member from the group and disconnects it.
+   * @returns {void}
+   */
+  disconnect(): void {
+    for (const member of Array.from(this.members)) {
+      this.remove(member)
+      member.disconnect()
+    }
+  }
+
+  /**
+   * Dispatches a group event on the group's element.
+   * @param {keyof LightOdometerGroupEventMap} name - The name of the event.
+   * @param {LightOdometerGroupEventDetail} detail - The batch the event is about.
+   * @returns {void}
+   */
+  emit(name: keyof LightOdometerGroupEventMap, detail: LightOdometerGroupEventDetail): void {
+    this.el?.dispatchEvent(new CustomEvent(name, {
+      bubbles: true, cancelable: true, detail,
+    }))
+  }
+
+  /** Subscribe to the group events */
+  on<K extends keyof LightOdometerGroupEventMap>(event: K, handler: (ev: LightOdometerGroupEventMap[K]) => void): void {
+    this.el?.addEventListener(event, handler)
+  }
+
+  /** Unsubscribe from the group events */
+  off<K extends keyof LightOdometerGroupEventMap>(event: K, handler: (ev: LightOdometerGroupEventMap[K]) => void): void {
+    this.el?.removeEventListener(event, handler)
+  }
+}
@@ -1,38 +1,87 @@
 import type {
+  AnimationDriver,
+  AnimationState,
+  CompactValue,
+  FrameTask,
+  DecimalString,
   FormatObject,
+  LightOdometerCancelReason,
+  LightOdometerEventDetail,
+  LightOdometerEventMap,
   LightOdometerEventName,
   LightOdometerGlobalOptions,
   LightOdometerOptions,
+  LightOdometerScheduler,
+  LightOdometerSetOptions,
+  LightOdometerValue,
+  MarkupPart,
 } from "../shared/interfaces"
+import type { FrameLoop } from "../utils/loop"
+
+import { defineLightOdometerElement } from "./element"
+
+import {
+  cleanDecimal,
+  cleanNumber,
+  decodeAlphabet,
+  escapeHTML,
+  getIntlFormat,
+  getIntlMarkupParts,
+  getMarkupParts,
+  getValueDigits,
+  parseFormat,
+  preservePrecision,
+  renderMarkup,
+  splitCompact,
+  toDecimal,
+  toLatinDigits,
+  toScaledInteger,
+} from "./format"
+
+import { LightOdometerCancelError } from "../shared/errors"
 
 import {
   DIGIT_HTML,
   FORMAT_MARK_HTML,
+  LABEL_HTML,
 } from "../shared/templates"
 
 import {
   COUNT_FRAMERATE,
-  DIGIT_FORMAT,
+  CROSSFADE_DURATION,
   DIGIT_SPEEDBOOST,
   DURATION,
-  FORMAT_PARSER,
   FRAMERATE,
   FRAMES_PER_VALUE,
+  TRANSITION_END_TIMEOUT,
+  VISIBLE_THRESHOLD,
 } from "../shared/settings"
 
+import { THEMES } from "../shared/themes"
+
+import {
+  absolute,
+  countDigits,
+  divideRounded,
+  formatDecimal,
+} from "../utils/decimal"
+
+import { resolveEasing } from "../utils/easing"
+
+import { getFrameLoop } from "../utils/loop"
+
+import { BROWSER_SCHEDULER } from "../utils/scheduler"
+
+import { adoptStyles } from "../utils/stylesheets"
+
 import {
   addClass,
   createFromHTML,
   initExistingOdometers,
   initGlobalOptionsDeferred,
   isBrowser,
-  now,
   removeClass,
-  round,
-  safeCancelRaf,
-  safeRaf,
   trigger,
-  truncate,
 } from "../utils/utilities"
 
 export class LightOdometer {
@@ -40,11 +89,16 @@ export class LightOdometer {
     ? (window.odometerOptions ?? {})
     : {})
 
+  /** Registry of the themes selectable through the `theme` option, by name */
+  static themes: Record<string, string> = { ...THEMES }
+
   private _isAnimating: boolean = false
+  private _isPaused: boolean = false
   options: LightOdometerOptions
   el: HTMLElement
   value: number = 0
   inside!: HTMLElement
+  label!: HTMLElement
   observer?: MutationObserver
   watchMutations: boolean = false
   transitionEndBound: boolean = false
@@ -58,14 +112,44 @@ export class LightOdometer {
     return this._isAnimating
   }
 
+  /** Readonly flag indicating whether the current animation is paused */
+  get isPaused(): Readonly<boolean> {
+    return this._isPaused
+  }
+
   MAX_VALUES!: number
   digits: HTMLElement[] = []
   ribbons: Record<number, HTMLElement> = {}
-  private _rafId?: number
-  private _countRafId?: number
   private _msPerFrame!: number
   private _countMsPerFrame!: number
   private _onTransitionEnd?: (ev: TransitionEvent) => void
+  private _intl?: Intl.NumberFormat
+  private _intlKey?: string
+  private _intlFormat?: FormatObject
+  private _layoutIntl: Map<number, Intl.NumberFormat> = new Map()
+  private _animation?: AnimationState
+  private _loop?: FrameLoop
+  private _tasks: Set<FrameTask> = new Set()
+  private _transitionEnd?: FrameTask
+  private _fade?: Animation
+  private _unitFade?: Animation
+  private _signFade?: Animation
+  private _widthFades: Animation[] = []
+  private _driver?: AnimationDriver
+  private _compactIntl?: Intl.NumberFormat
+  private _compact?: CompactValue
+  private _reducedMotionQuery?: MediaQueryList
+  private _onReducedMotionChange?: (ev: MediaQueryListEvent) => void
+  private _visibilityObserver?: IntersectionObserver
+  private _visible: boolean = false
+  private _rtl?: boolean
+  private _exact?: DecimalString
+  private _pendingValue?: number | DecimalString
+  private _replayFrom?: number | DecimalString
+  private _settlers: {
+    resolve: (detail: LightOdometerEventDetail) => void;
+    reject: (error: LightOdometerCancelError) => void;
+  }[] = []
 
   /**
    * Initializes a new instance of the LightOdometer class.
@@ -126,12 +210,26 @@ export class LightOdometer {
 
     this.resetFormat()
 
-    this.value = this.cleanValue(this.options.value ?? "")
+    this.setCurrent(this.options.precise
+      ? this.cleanExact(this.options.value ?? "")
+      : this.cleanValue(this.options.value ?? ""))
 
     // SSR-guard: if not in browser, just no-op render
     if (isBrowser()) {
-      this.renderInside()
-      this.render()
+      // Hold the initial value until the odometer becomes visible
+      if (this.isVisibilityTriggered()) {
+        this._pendingValue = this.getCurrent()
+        this.setCurrent(this.toAmount(0))
+      }
+
+      // Server-rendered markup is adopted as is when it shows the same value
+      if (!this.options.hydrate || !this.hydrate()) {
+        this.renderInside()
+        this.render()
+      }
+
+      this.watchReducedMotion()
+      this.watchVisibility()
     }
 
     try {
@@ -162,7 +260,7 @@ export class LightOdometer {
 
   /**
    * Renders the inner container of the odometer.
-   * Clears the root element (`this.el`) and appends a new child element with the class `odometer-inside`.
+   * Clears the root element (`this.el`) and appends a new child element with the class `odometer-inside`, hidden from screen readers, followed by the `odometer-label` they read instead.
    * @returns {void}
    */
   renderInside(): void {
@@ -172,8 +270,14 @@ export class LightOdometer {
 
     this.inside = document.createElement("div")
     this.inside.className = "odometer-inside"
+    // Numbers read left to right in every script, so the digits are isolated from the direction of the surrounding text
+    this.inside.dir = "ltr"
+    // Ribbons would be read as a stream of random digits
+    this.inside.setAttribute("aria-hidden", "true")
+    this.label = createFromHTML(LABEL_HTML)
     this.el.textContent = ""
     this.el.appendChild(this.inside)
+    this.el.appendChild(this.label)
   }
 
   /**
@@ -187,7 +291,7 @@ export class LightOdometer {
         const newVal = this.el.innerText || ""
 
         this.renderInside()
-        this.render(this.value)
+        this.render()
         this.update(newVal)
       })
 
@@ -221,327 +325,1302 @@ export class LightOdometer {
   }
 
   /**
-   * Cleans and normalizes a value to ensure it can be processed as a number.
-   * Converts formatted strings into numeric values by handling radix symbols and removing unnecessary characters.
-   * @param {string | number} val - The value to clean and normalize.
-   * @returns {number} The cleaned and rounded numeric value.
+   * Observes the `prefers-reduced-motion` media query.
+   * When the user starts preferring reduced motion while an animation runs and `reducedMotion` is `auto`, the animation jumps to its end.
+   * @returns {void}
    */
-  cleanValue(val: string | number): number {
-    if (typeof val === "string") {
-      // We need to normalize the format so we can properly turn it into a float.
-      val = val.replace(this.format.radix ?? ".", "<radix>")
-      val = val.replace(/[.,\s\u00A0\u202F]/g, "")
-      val = val.replace("<radix>", ".")
-      val = parseFloat(val) || 0
+  watchReducedMotion(): void {
+    if (this._reducedMotionQuery || typeof matchMedia !== "function") {
+      return
     }
 
-    return round(val, this.format.precision)
+    this._reducedMotionQuery = matchMedia("(prefers-reduced-motion: reduce)")
+    this._onReducedMotionChange = (ev) => {
+      if (ev.matches && this._isAnimating && (this.options.reducedMotion ?? "auto") === "auto") {
+        this.finishAnimation()
+      }
+    }
+    this._reducedMotionQuery.addEventListener("change", this._onReducedMotionChange)
   }
 
   /**
-   * Binds transition end events to the root element (`this.el`).
-   * Ensures that the odometer re-renders only once per transition, even if multiple transition end events are triggered. After rendering, it dispatches the `odometerdone` custom event.
+   * Checks whether updates are held until the odometer scrolls into view (`trigger: "visible"`).
+   * @returns {boolean} `true` if the visible trigger is set and `IntersectionObserver` is supported.
+   */
+  isVisibilityTriggered(): boolean {
+    return this.options.trigger === "visible" && typeof IntersectionObserver === "function"
+  }
+
+  /**
+   * Observes the root element (`this.el`) entering and leaving the viewport when the visible trigger is set.
+   * Crossing `visibleThreshold` releases the held value, leaving the viewport entirely resets the odometer for a replay if `replay` is set.
    * @returns {void}
    */
-  bindTransitionEnd(): void {
-    if (this.transitionEndBound) {
+  watchVisibility(): void {
+    if (this._visibilityObserver || !this.isVisibilityTriggered()) {
       return
     }
 
-    this.transitionEndBound = true
+    const threshold = this.options.visibleThreshold ?? VISIBLE_THRESHOLD
 
-    // The event will be triggered once for each ribbon, we only want one render though
-    let renderEnqueued = false
+    this._visibilityObserver = new IntersectionObserver((entries) => {
+      const entry = entries[entries.length - 1]
 
-    this._onTransitionEnd = () => {
-      if (renderEnqueued) {
-        return true
+      if (!entry) {
+        return
       }
 
-      renderEnqueued = true
-
-      setTimeout(() => {
-        this.render()
-        renderEnqueued = false
-        this._isAnimating = false
-        trigger(this.el, "odometerdone", {
-          id: this.options.id,
-          el: this.el,
-          instance: this,
-          value: this.value,
-          options: this.getOptions(),
-        })
-      }, 0)
-
-      return true
-    }
-
-    this.el.addEventListener("transitionend", this._onTransitionEnd, false)
+      if (entry.isIntersecting && entry.intersectionRatio >= threshold) {
+        this.onVisible()
+      } else if (!entry.isIntersecting && this._visible) {
+        this.onHidden()
+      }
+    }, { threshold: [ 0, threshold ] })
+    this._visibilityObserver.observe(this.el)
   }
 
   /**
-   * Resets and parses the odometer's format configuration.
-   * Extracts the repeating pattern, radix symbol, and precision from the format string.
-   * Throws an error if the format string is invalid or unparsable.
+   * Stops observing the root element's visibility and forgets whether it was visible.
    * @returns {void}
    */
-  resetFormat(): void {
-    let format = this.options.format ?? DIGIT_FORMAT
-
-    format = format || "d"
+  stopWatchingVisibility(): void {
+    this._visibilityObserver?.disconnect()
+    this._visibilityObserver = undefined
+    this._visible = false
+  }
 
-    const parsed = FORMAT_PARSER.exec(format)
+  /**
+   * Called when the root element crosses the visibility threshold.
+   * Animates to the value held while the odometer was out of view, if any.
+   * @returns {void}
+   */
+  onVisible(): void {
+    this._visible = true
 
-    if (!parsed) {
-      throw new Error("LightOdometer: Unparsable digit format")
+    if (this._pendingValue == null) {
+      return
     }
 
-    const repeating = parsed[1] ?? ""
-    const radix = parsed[2]
-    const fractional = parsed[3] ?? ""
-
-    const precision = fractional.length
+    const pending = this._pendingValue
 
-    this.format = {
-      repeating, radix, precision,
-    }
+    this._pendingValue = undefined
+    this._replayFrom ??= this.getCurrent()
+    this.applyUpdate(pending)
   }
 
   /**
-   * Renders the odometer with the specified value.
-   * Updates the DOM structure, applies the appropriate classes, and formats the digits for display.
-   * @param {number} [value] - The value to render. Defaults to the current value (`this.value`).
+   * Called when the root element leaves the viewport.
+   * With `replay`, the odometer goes back to the value it was revealed from, so the animation plays again on the next entry.
    * @returns {void}
    */
-  render(value?: number): void {
-    if (!isBrowser()) {
+  onHidden(): void {
+    this._visible = false
+
+    if (!this.options.replay || this._replayFrom == null) {
       return
     }
 
-    value ??= this.value
-    this.stopWatchingMutations()
-    this.resetFormat()
+    if (this._isAnimating) {
+      this.finishAnimation()
+    }
 
-    this.inside.textContent = ""
+    this._pendingValue ??= this.getCurrent()
+    this.setCurrent(this._replayFrom)
+    this.render()
+  }
 
-    // Strip previous odometer classes only
-    for (const cls of Array.from(this.el.classList)) {
-      if ((/^odometer(-|$)/).test(cls)) {
-        this.el.classList.remove(cls)
-      }
+  /**
+   * Checks whether animations should be reduced, according to the `reducedMotion` option and the user's preferences.
+   * @returns {boolean} `true` if updates should jump or crossfade instead of animating.
+   */
+  prefersReducedMotion(): boolean {
+    switch (this.options.reducedMotion ?? "auto") {
+      case "always":
+        return true
+      case "never":
+        return false
+      default:
+        return this._reducedMotionQuery?.matches ?? false
     }
+  }
 
-    this.el.classList.add("odometer", "odometer-auto-theme")
-    // Expose duration to CSS via custom property for consistent JS/CSS timing
-    this.el.style.setProperty("--odometer-duration", `${this.options.duration ?? DURATION}ms`)
+  /**
+   * Cleans and normalizes a value to ensure it can be processed as a number.
+   * Converts formatted strings into numeric values by handling radix symbols and removing unnecessary characters.
+   * @param {LightOdometerValue} val - The value to clean and normalize.
+   * @returns {number} The cleaned and rounded numeric value.
+   */
+  cleanValue(val: LightOdometerValue): number {
+    return cleanNumber(val, this.format)
+  }
 
-    this.ribbons = {}
+  /**
+   * Cleans and normalizes a value without going through floats, for the `precise` mode.
+   * Formatted strings are normalized like in `cleanValue()`, then rounded to the format precision with string and BigInt arithmetic.
+   * @param {LightOdometerValue} val - The value to clean and normalize.
+   * @returns {DecimalString} The cleaned value as a decimal string holding exactly the precision digits.
+   */
+  cleanExact(val: LightOdometerValue): DecimalString {
+    return cleanDecimal(val, this.format)
+  }
 
-    this.formatDigits(value)
+  /**
+   * Converts an already cleaned value to the representation of the current mode: a decimal string in `precise` mode, a number otherwise.
+   * @param {number | DecimalString} value - The value to convert.
+   * @returns {number | DecimalString} The converted value.
+   */
+  toAmount(value: number | DecimalString): number | DecimalString {
+    return this.options.precise
+      ? toDecimal(value, this.format)
+      : this.cleanValue(Number(value))
+  }
 
-    this.startWatchingMutations()
+  /**
+   * Gets the current value, as an exact decimal string in `precise` mode.
+   * @returns {number | DecimalString} The current value.
+   */
+  getCurrent(): number | DecimalString {
+    return this._exact ?? this.value
   }
 
   /**
-   * Formats the given value into individual digits and renders them.
-   * If a custom format function is provided, it uses that to format the value.
-   * Otherwise, it preserves the precision and formats the value based on the odometer's configuration.
-   * @param {number} value - The value to format and render as digits.
+   * Sets the current value, keeping `this.value` in sync with the exact decimal string in `precise` mode.
+   * @param {number | DecimalString} value - The new current value.
    * @returns {void}
    */
-  formatDigits(value: number): void {
-    this.digits = []
+  setCurrent(value: number | DecimalString): void {
+    this.value = Number(value)
+    this._exact = typeof value === "string"
+      ? value
+      : undefined
+  }
+
+  /**
+   * Gets the clock and frame scheduler driving the animations: the `scheduler` option, the global one, or the browser's.
+   * @returns {LightOdometerScheduler} The scheduler in use.
+   */
+  getScheduler(): LightOdometerScheduler {
+    return this.options.scheduler ?? LightOdometer.options.scheduler ?? BROWSER_SCHEDULER
+  }
 
-    if (this.options.formatFunction) {
-      const valueString = this.options.formatFunction(value)
+  /**
+   * Gets the exact value of the odometer.
+   * In `precise` mode this keeps all the digits `this.value` loses beyond 2^53 or to float rounding.
+   * @returns {string} The value as a decimal string.
+   */
+  getExactValue(): string {
+    return this._exact ?? String(this.value)
+  }
 
-      for (const valueDigit of valueString.split("")
-        .toReversed()) {
-        if ((/\d/).test(valueDigit)) {
-          const digit = this.renderDigit()
+  /**
+   * Binds transition end events to the root element (`this.el`).
+   * Ensures that the odometer re-renders only once per transition, even if multiple transition end events are triggered. After rendering, it dispatches the `odometerdone` custom event.
+   * @returns {void}
+   */
+  bindTransitionEnd(): void {
+    if (this.transitionEndBound) {
+      return
+    }
 
-          const valEl = digit.querySelector<HTMLElement>(".odometer-value")!
+    this.transitionEndBound = true
 
-          valEl.textContent = valueDigit
-          // In static (non-animated) render, mark as both first and last for CSS hooks
-          addClass(valEl, "odometer-first-value odometer-last-value")
-          this.digits.push(digit)
-          this.insertDigit(digit)
-        } else {
-          this.addSpacer(valueDigit)
-        }
+    this._onTransitionEnd = () => {
+      // The event will be triggered once for each ribbon, we only want one render though
+      if (this._transitionEnd || !this._isAnimating || this._isPaused) {
+        return true
       }
-    } else {
-      const valueString = this.preservePrecision(value)
-      let wholePart = !this.format.precision
-
-      for (const digit of valueString.split("")
-        .toReversed()) {
-        if (digit === ".") {
-          wholePart = true
-        }
 
-        this.addDigit(digit, wholePart)
+      this._transitionEnd = {
+        write: () => {
+          this.finishAnimation()
+        },
       }
+      this.schedule(this._transitionEnd)
+
+      return true
     }
+
+    this.el.addEventListener("transitionend", this._onTransitionEnd, false)
   }
 
   /**
-   * Ensures the value maintains the specified precision by adding trailing zeros if necessary.
-   * This is used to keep the decimal places consistent at the end of the animation.
-   * @param {number} value - The numeric value to format with preserved precision.
-   * @returns {string} The value as a string with the required precision.
+   * Ends the current animation.
+   * Renders the final value, clears the animation state and dispatches the `odometerdone` custom event.
+   * @returns {void}
    */
-  preservePrecision(value: number): string {
-    // This function fixes the precision at the end of the animation keeping the decimal places even if we have 0 digits only
-    let fixedValue: string = value.toString()
-
-    if (this.format.precision) {
-      const parts = fixedValue.split(".")
+  finishAnimation(): void {
+    this.clearScheduled()
+    this.render()
+    this._isAnimating = false
+    this._animation = undefined
+    this.updateLabel(this.getCurrent())
+
+    const detail: LightOdometerEventDetail = {
+      id: this.options.id,
+      el: this.el,
+      instance: this,
+      value: this.value,
+      exactValue: this._exact,
+      formattedValue: this.getFormattedValue(this.getCurrent()),
+      options: this.getOptions(),
+    }
 
-      if (parts.length === 1) {
-        fixedValue += "."
-        parts[1] = ""
-      }
+    // The compact notation displays a rounded value
+    if (this._compact) {
+      detail.displayedValue = Number(this._compact.mantissa) * Math.pow(10, this._compact.exponent)
+    }
 
-      const fractionalPart = parts[1] ?? ""
+    trigger(this.el, "odometerdone", detail)
 
-      for (let i = 0; i < this.format.precision; i++) {
-        if (!fractionalPart[i]) {
-          fixedValue += "0"
-        }
-      }
+    for (const { resolve } of this._settlers.splice(0)) {
+      resolve(detail)
     }
+  }
 
-    return fixedValue
+  /**
+   * Runs a task on every frame of the frame loop shared by the instances using the same scheduler, until `unschedule()` or `clearScheduled()` stops it.
+   * @param {FrameTask} task - The task to run.
+   * @returns {void}
+   */
+  schedule(task: FrameTask): void {
+    this._loop ??= getFrameLoop(this.getScheduler())
+    this._tasks.add(task)
+    this._loop.add(task)
   }
 
   /**
-   * Updates the odometer to display a new value.
-   * Cleans and normalizes the input value, determines the difference from the current value, and triggers the appropriate animations and DOM updates.
-   * @param {string | number} newValue - The new value to update the odometer to.
-   * @returns {number} The updated value of the odometer.
+   * Stops running a task scheduled with `schedule()`.
+   * @param {FrameTask} task - The task to stop.
+   * @returns {void}
    */
-  update(newValue: string | number): number {
-    if (!isBrowser()) {
-      this.value = this.cleanValue(newValue)
+  unschedule(task: FrameTask): void {
+    this._tasks.delete(task)
+    this._loop?.delete(task)
+  }
 
-      return this.value
+  /**
+   * Cancels every frame task and fade of the current animation.
+   * @returns {void}
+   */
+  clearScheduled(): void {
+    for (const task of this._tasks) {
+      this._loop?.delete(task)
     }
 
-    newValue = this.cleanValue(newValue)
-
-    // If the value is the same, we don't need to do anything
-    const diff = newValue - this.value
+    this._tasks.clear()
+    this._fade?.cancel()
+    this._unitFade?.cancel()
+    this._signFade?.cancel()
 
-    if (!diff) {
-      return this.value
+    for (const fade of this._widthFades.splice(0)) {
+      fade.cancel()
     }
 
-    removeClass(
-      this.el,
-      "odometer-animating-up odometer-animating-down odometer-animating",
-    )
+    this._loop = undefined
+    this._transitionEnd = undefined
+    this._fade = undefined
+    this._unitFade = undefined
+    this._signFade = undefined
+    this._driver = undefined
+    this._isPaused = false
+  }
 
-    if (diff > 0) {
-      addClass(this.el, "odometer-animating-up")
-    } else {
-      addClass(this.el, "odometer-animating-down")
+  /**
+   * Rejects every promise returned by `updateAsync()` that is waiting on the current animation.
+   * @param {LightOdometerCancelReason} reason - Why the animation will never complete.
+   * @returns {void}
+   */
+  cancelPendingUpdates(reason: LightOdometerCancelReason): void {
+    for (const { reject } of this._settlers.splice(0)) {
+      reject(new LightOdometerCancelError(reason, this.value, this._exact))
     }
+  }
 
-    // mark animating and dispatch start event
-    this._isAnimating = true
-    trigger(this.el, "odometerstart", {
+  /**
+   * Stops the current animation so a newer update can take over from what is on screen.
+   * Cancels pending frames and transition end handling, then dispatches the `odometerinterrupt` custom event.
+   * @returns {number | DecimalString} The value displayed when the animation got interrupted, as an exact decimal string in `precise` mode.
+   */
+  interruptAnimation(): number | DecimalString {
+    const displayed = this.getDisplayed()
+
+    this.clearScheduled()
+
+    trigger(this.el, "odometerinterrupt", {
       id: this.options.id,
       el: this.el,
       instance: this,
-      value: newValue,
-      oldValue: this.value,
+      value: this.value,
+      exactValue: this._exact,
+      oldValue: this._animation?.from,
+      displayedValue: Number(displayed),
       options: this.getOptions(),
     })
 
-    this.stopWatchingMutations()
-    this.animate(newValue)
-    this.startWatchingMutations()
-
-    setTimeout(() => {
-      // Force a repaint using a tiny read, batched
-      void this.el.offsetHeight
-      addClass(this.el, "odometer-animating")
-    }, 0)
+    trigger(this.el, "odometercancel", {
+      id: this.options.id,
+      el: this.el,
+      instance: this,
+      value: this.value,
+      exactValue: this._exact,
+      oldValue: this._animation?.from,
+      reason: "superseded",
+      options: this.getOptions(),
+    })
 
-    this.value = newValue
+    this._isAnimating = false
+    this._animation = undefined
+    this.cancelPendingUpdates("superseded")
 
-    return this.value
+    return displayed
   }
 
   /**
-   * Creates and returns a new digit element for the odometer.
-   * The digit element is generated from the predefined `DIGIT_HTML` template.
-   * @returns {HTMLElement} The newly created digit element.
+   * Dispatches the `odometerframe` custom event for a frame of the count or slide animation, or one of the playback control events.
+   * @param {number} progress - Elapsed time of the animation, as a ratio of its duration.
+   * @param {'odometerframe' | 'odometerpause' | 'odometerresume' | 'odometerseek'} [name] - The event to dispatch. Defaults to `odometerframe`.
+   * @returns {void}
    */
-  renderDigit(): HTMLElement {
-    return createFromHTML(DIGIT_HTML)
+  emitFrame(progress: number, name: "odometerframe" | "odometerpause" | "odometerresume" | "odometerseek" = "odometerframe"): void {
+    trigger(this.el, name, {
+      id: this.options.id,
+      el: this.el,
+      instance: this,
+      value: this.value,
+      exactValue: this._exact,
+      oldValue: this._animation?.from,
+      progress,
+      displayedValue: this.getDisplayedValue(),
+      options: this.getOptions(),
+    })
   }
 
   /**
-   * Inserts a digit element into the odometer's inner container.
-   * If a reference element (`before`) is provided, the digit is inserted before it.
-   * Otherwise, the digit is appended to the container or inserted at the beginning if other children exist.
-   * @param {HTMLElement} digit - The digit element to insert.
-   * @param {HTMLElement | null} [before] - The reference element to insert the digit before. Defaults to `null`.
-   * @returns {HTMLElement} The inserted digit element.
+   * Gets the value currently displayed by the odometer.
+   * While a slide animation runs, each ribbon's position is read from its computed transform, or estimated from the elapsed time when no transform is applied.
+   * @returns {number} The displayed value, or `this.value` when not animating.
    */
-  insertDigit(digit: HTMLElement, before?: HTMLElement | null): HTMLElement {
-    if (before) {
-      return this.inside.insertBefore(digit, before)
-    } else if (!this.inside.children.length) {
-      return this.inside.appendChild(digit)
-    } else {
-      return this.inside.insertBefore(digit, this.inside.firstElementChild)
-    }
+  getDisplayedValue(): number {
+    return Number(this.getDisplayed())
   }
 
   /**
-   * Creates and inserts a spacer element into the odometer's inner container.
-   * A spacer is a non-digit element (e.g., a comma or decimal point) used for formatting.
-   * @param {string} chr - The character to display in the spacer.
-   * @param {HTMLElement | null} [before] - The reference element to insert the spacer before. Defaults to `null`.
-   * @param {string} [extraClasses] - Additional CSS classes to apply to the spacer element.
-   * @returns {HTMLElement} The inserted spacer element.
+   * Gets the value currently displayed by the odometer, as an exact decimal string in `precise` mode.
+   * @returns {number | DecimalString} The displayed value, or the current value when not animating.
    */
-  addSpacer(
-    chr: string,
-    before?: HTMLElement | null,
-    extraClasses?: string,
-  ): HTMLElement {
-    const spacer = createFromHTML(FORMAT_MARK_HTML)
-
-    spacer.textContent = chr
+  getDisplayed(): number | DecimalString {
+    const animation = this._animation
 
-    if (extraClasses) {
-      addClass(spacer, extraClasses)
+    if (!this._isAnimating || !animation) {
+      return this.getCurrent()
     }
 
-    return this.insertDigit(spacer, before)
-  }
+    if (this.options.animation === "count" || animation.reduced) {
+      return animation.displayed ?? animation.exactFrom ?? animation.from
+    }
 
-  /**
-   * Adds a digit or spacer element to the odometer's inner container.
-   * Handles special cases for negation (`-`) and radix (`.`) characters, and ensures the format's repeating pattern is respected.
-   * @param {string} value - The digit or character to add.
-   * @param {boolean} [repeating=true] - Whether to use the repeating format pattern. Defaults to `true`.
-   * @returns {HTMLElement} The inserted digit or spacer element.
-   * @throws {Error} If the format string is invalid or lacks digits.
-   */
-  addDigit(value: string, repeating?: boolean): HTMLElement {
-    repeating ??= true
+    const progress = this.getProgress()
+    let digitString = ""
 
-    if (value === "-") {
-      return this.addSpacer(value, null, "odometer-negation-mark")
-    }
+    for (let i = Object.keys(this.ribbons).length - 1; i >= 0; i--) {
+      const ribbon = this.ribbons[i]
 
-    if (value === ".") {
+      if (!ribbon) {
+        continue
+      }
+
+      // Ribbons are reversed when animating down, so the first value is the target
+      const up = animation.up ?? animation.to > animation.from
+      // Ribbons moved by the `js` slide driver aren't measured, that would lay them out on every frame
+      const position = animation.position ?? this.getRibbonPosition(ribbon) ?? (up
+        ? progress
+        : 1 - progress)
+      const last = ribbon.children.length - 1
+      // A column halfway between two values still shows the one it is leaving
+      const travelled = Math.floor(((up
+        ? position
+        : 1 - position) * last) + 1e-6)
+      const index = up
+        ? travelled
+        : last - travelled
+
+      digitString += ribbon.children[index]?.textContent ?? "0"
+    }
+
+    const estimate = animation.from + ((animation.to - animation.from) * progress)
+
+    // Ribbons rolling from one compact unit to another don't show a single value
+    if (animation.unitChanged) {
+      return this.toAmount(this.cleanValue(estimate))
+    }
+
+    const exponent = animation.exponent ?? 0
+
+    const digits = this.format.alphabet
+      ? decodeAlphabet(digitString, this.format.alphabet)
+      : BigInt(toLatinDigits(digitString) || "0")
+
+    if (this._exact !== undefined) {
+      const magnitude = digits * (10n ** BigInt(exponent))
+      const displayed = formatDecimal(estimate < 0
+        ? -magnitude
+        : magnitude, Math.round(Math.log10(animation.scale)))
+
+      return toDecimal(displayed, this.format)
+    }
+
+    const magnitude = Number(digits) * Math.pow(10, exponent) / animation.scale
+
+    return this.cleanValue(estimate < 0
+      ? -magnitude
+      : magnitude)
+  }
+
+  /**
+   * Gets how long the current animation has been running, without the time it spent paused.
+   * @returns {number} The elapsed time in milliseconds, `Infinity` when there is no animation left.
+   */
+  getElapsed(): number {
+    const animation = this._animation
+
+    if (!animation) {
+      return Infinity
+    }
+
+    return (animation.pausedAt ?? this.getScheduler().now()) - animation.start
+  }
+
+  /**
+   * Gets the elapsed time of the current animation as a ratio of its duration.
+   * @returns {number} A ratio between 0 and 1.
+   */
+  getProgress(): number {
+    const duration = this.options.duration || 0
+
+    return duration
+      ? Math.min(Math.max(this.getElapsed() / duration, 0), 1)
+      : 1
+  }
+
+  /**
+   * Gets the fades of the current animation run through the Web Animations API.
+   * @returns {Animation[]} The running reduced motion crossfade, compact unit, minus sign and width fades.
+   */
+  getFades(): Animation[] {
+    return [ this._fade, this._unitFade, this._signFade, ...this._widthFades ]
+      .filter((fade) => fade !== undefined)
+  }
+
+  /**
+   * Pauses the current animation, until `resume()` is called.
+   * Frames stop being scheduled, ribbons moved by CSS transitions are frozen where they are and fades are paused, then the `odometerpause` custom event is dispatched.
+   * @returns {void}
+   */
+  pause(): void {
+    const animation = this._animation
+
+    if (!this._isAnimating || this._isPaused || !animation) {
+      return
+    }
+
+    animation.pausedAt = this.getScheduler().now()
+    this._isPaused = true
+    this._driver?.pause()
+
+    for (const fade of this.getFades()) {
+      fade.pause()
+    }
+
+    this.emitFrame(this.getProgress(), "odometerpause")
+  }
+
+  /**
+   * Resumes the paused animation from where it stopped, then dispatches the `odometerresume` custom event.
+   * @returns {void}
+   */
+  resume(): void {
+    const animation = this._animation
+
+    if (!this._isPaused || !animation) {
+      return
+    }
+
+    const now = this.getScheduler().now()
+
+    // The time spent paused doesn't count towards the duration
+    animation.start += now - (animation.pausedAt ?? now)
+    animation.pausedAt = undefined
+    this._isPaused = false
+
+    for (const fade of this.getFades()) {
+      fade.play()
+    }
+
+    this._driver?.resume()
+    this.emitFrame(this.getProgress(), "odometerresume")
+  }
+
+  /**
+   * Moves the current animation to a given progress, paused or not, then dispatches the `odometerseek` custom event.
+   * Seeking to the end finishes the animation. The reduced motion crossfade can't be seeked.
+   * @param {number} progress - The elapsed time to go to, as a ratio of the duration (between 0 and 1).
+   * @returns {void}
+   */
+  seek(progress: number): void {
+    const animation = this._animation
+
+    if (!this._isAnimating || !animation) {
+      return
+    }
+
+    const ratio = Math.min(Math.max(progress, 0), 1)
+
+    if (ratio >= 1) {
+      this.finish()
+
+      return
+    }
+
+    const duration = this.options.duration ?? DURATION
+
+    animation.start = (animation.pausedAt ?? this.getScheduler().now()) - (ratio * duration)
+
+    for (const fade of [ this._unitFade, this._signFade, ...this._widthFades ]) {
+      if (fade) {
+        fade.currentTime = ratio * duration
+      }
+    }
+
+    const driver = this._driver
+
+    if (driver) {
+      driver.pause()
+
+      if (driver.render() && !this._isPaused) {
+        driver.resume()
+      }
+    }
+
+    this.emitFrame(ratio, "odometerseek")
+  }
+
+  /**
+   * Ends the current animation right away on its value, paused or not, and dispatches `odometerdone`.
+   * @returns {void}
+   */
+  finish(): void {
+    if (this._isAnimating) {
+      this.finishAnimation()
+    }
+  }
+
+  /**
+   * Reads how far a ribbon has travelled from its computed transform.
+   * @param {HTMLElement} ribbon - The `odometer-ribbon-inner` element to inspect.
+   * @returns {number | undefined} A ratio between 0 (first value visible) and 1 (last value visible), or `undefined` if no transform is applied.
+   */
+  getRibbonPosition(ribbon: HTMLElement): number | undefined {
+    const first = ribbon.firstElementChild
+    const last = ribbon.lastElementChild
+
+    if (typeof DOMMatrixReadOnly === "undefined" || !(first instanceof HTMLElement) || !(last instanceof HTMLElement)) {
+      return undefined
+    }
+
+    const { transform } = getComputedStyle(ribbon)
+    const travel = last.offsetTop - first.offsetTop
+
+    if (!transform || transform === "none" || !travel) {
+      return undefined
+    }
+
+    const offset = -new DOMMatrixReadOnly(transform).m42
+
+    return Math.min(Math.max(offset / travel, 0), 1)
+  }
+
+  /**
+   * Resets and parses the odometer's format configuration.
+   * Extracts the repeating pattern, radix symbol, and precision from the format string.
+   * Throws an error if the format string is invalid or unparsable.
+   * @returns {void}
+   */
+  resetFormat(): void {
+    if (!this.options.alphabet && (this.options.locale != null || this.options.numberFormat)) {
+      this.resetIntlFormat()
+
+      return
+    }
+
+    this._intl = undefined
+    this._compactIntl = undefined
+    this.format = {
+      ...parseFormat(this.options.format, this.options.alphabet, this.options.numberingSystem), prefix: this.options.prefix, suffix: this.options.suffix,
+    }
+  }
+
+  /**
+   * Resets the odometer's format configuration from `Intl.NumberFormat`.
+   * The formatter, along with the radix symbol, precision and scale read from it, is only rebuilt when `locale` or `numberFormat` changed.
+   * @returns {void}
+   */
+  resetIntlFormat(): void {
+    const key = JSON.stringify([ this.options.locale, this.options.numberFormat, this.options.numberingSystem, this.options.notation ])
+
+    if (!this._intl || !this._intlFormat || key !== this._intlKey) {
+      this._intl = new Intl.NumberFormat(this.options.locale, this.getNumberFormatOptions())
+      this._compactIntl = this.options.notation === "compact"
+        ? new Intl.NumberFormat(this.options.locale, {
+          notation: "compact", compactDisplay: this.options.numberFormat?.compactDisplay,
+        })
+        : undefined
+      this._intlFormat = getIntlFormat(this._intl)
+      this._layoutIntl.clear()
+      this._intlKey = key
+    }
+
+    this.format = {
+      ...this._intlFormat, prefix: this.options.prefix, suffix: this.options.suffix,
+    }
+  }
+
+  /**
+   * Gets the `Intl.NumberFormat` options of the odometer, with the `numberingSystem` option taking precedence over the one of `numberFormat`.
+   * @returns {Intl.NumberFormatOptions} The formatter options.
+   */
+  getNumberFormatOptions(): Intl.NumberFormatOptions {
+    return {
+      ...this.options.numberFormat,
+      numberingSystem: this.options.numberingSystem ?? this.options.numberFormat?.numberingSystem,
+    }
+  }
+
+  /**
+   * Renders the odometer with the specified value.
+   * Updates the DOM structure, applies the appropriate classes, and formats the digits for display.
+   * @param {number | DecimalString} [value] - The value to render. Defaults to the current value (`this.value`, or its exact decimal string in `precise` mode).
+   * @returns {void}
+   */
+  render(value?: number | DecimalString): void {
+    if (!isBrowser()) {
+      return
+    }
+
+    value ??= this.getCurrent()
+    this.stopWatchingMutations()
+    this.resetFormat()
+
+    this.inside.textContent = ""
+    this.renderRoot()
+
+    this.ribbons = {}
+
+    this.formatDigits(value)
+
+    // Count frames are rendered too, only the final value is written for screen readers
+    if (!this._isAnimating) {
+      this.updateLabel(value)
+    }
+
+    this.startWatchingMutations()
+  }
+
+  /**
+   * Writes the formatted value in the visually hidden `odometer-label` read by screen readers, and applies the `ariaLive` politeness to it.
+   * @param {number | DecimalString} value - The value to write.
+   * @returns {void}
+   */
+  updateLabel(value: number | DecimalString): void {
+    const live = this.options.ariaLive ?? "off"
+
+    if (live === "off") {
+      this.label.removeAttribute("aria-live")
+      this.label.removeAttribute("aria-atomic")
+    } else {
+      this.label.setAttribute("aria-live", live)
+      this.label.setAttribute("aria-atomic", "true")
+    }
+
+    this.label.textContent = this.getFormattedValue(value)
+  }
+
+  /**
+   * Gets the text displayed by the odometer for a value, formatting marks included.
+   * @param {number | DecimalString} value - The value to format.
+   * @returns {string} The formatted value (i.e. '$1,234.50').
+   */
+  getFormattedValue(value: number | DecimalString): string {
+    return this.getMarkupParts(value)
+      .map((part) => part.value)
+      .join("")
+  }
+
+  /**
+   * Applies the odometer classes, the theme and the duration custom property to the root element (`this.el`).
+   * @returns {void}
+   */
+  renderRoot(): void {
+    // Strip previous odometer classes only
+    for (const cls of Array.from(this.el.classList)) {
+      if ((/^odometer(-|$)/).test(cls)) {
+        this.el.classList.remove(cls)
+      }
+    }
+
+    this.el.classList.add("odometer", "odometer-auto-theme")
+
+    // Themes can mirror what depends on the direction, the digits themselves stay left to right
+    if (this.isRightToLeft()) {
+      this.el.classList.add("odometer-rtl")
+    }
+
+    this.applyTheme()
+    // Expose duration to CSS via custom property for consistent JS/CSS timing
+    this.el.style.setProperty("--odometer-duration", `${this.options.duration ?? DURATION}ms`)
+  }
+
+  /**
+   * Detects whether the odometer sits in right-to-left text, from the computed `direction` of the root element or the closest `dir` attribute.
+   * The computed direction is read once and kept until `setOptions()` is called, so rendering count frames doesn't recalculate styles.
+   * @returns {boolean} `true` if the root element is laid out right to left.
+   */
+  isRightToLeft(): boolean {
+    if (this._rtl !== undefined) {
+      return this._rtl
+    }
+
+    // A detached element has no computed style yet, it is read again once connected
+    if (!this.el.isConnected) {
+      return this.el.closest("[dir]")?.getAttribute("dir") === "rtl"
+    }
+
+    const direction = getComputedStyle(this.el).direction || this.el.closest("[dir]")?.getAttribute("dir")
+
+    this._rtl = direction === "rtl"
+
+    return this._rtl
+  }
+
+  /**
+   * Adopts the markup rendered by `LightOdometer.renderToString()` instead of rendering the digits again.
+   * The existing `odometer-inside` container is only kept if it shows the current value, otherwise the `odometerhydrationmismatch` custom event is dispatched and the odometer renders from scratch.
+   * @returns {boolean} `true` if the existing markup was adopted.
+   */
+  hydrate(): boolean {
+    const inside = Array.from(this.el.children)
+      .find((child) => child.classList.contains("odometer-inside"))
+
+    if (!(inside instanceof HTMLElement)) {
+      return false
+    }
+
+    this.resetFormat()
+
+    const parts = this.getMarkupParts(this.getCurrent())
+
+    if (!this.matchesMarkup(inside, parts)) {
+      trigger(this.el, "odometerhydrationmismatch", {
+        id: this.options.id,
+        el: this.el,
+        instance: this,
+        value: this.value,
+        exactValue: this._exact,
+        expectedHTML: renderMarkup(parts),
+        foundHTML: inside.innerHTML,
+        options: this.getOptions(),
+      })
+
+      return false
+    }
+
+    this.inside = inside
+    this.inside.dir = "ltr"
+    this.inside.setAttribute("aria-hidden", "true")
+
+    const label = Array.from(this.el.children)
+      .find((child) => child.classList.contains("odometer-label"))
+
+    this.label = label instanceof HTMLElement
+      ? label
+      : this.el.appendChild(createFromHTML(LABEL_HTML))
+    this.updateLabel(this.getCurrent())
+    this.renderRoot()
+    this.ribbons = {}
+    // Digits are listed from the least significant one
+    this.digits = Array.from(inside.querySelectorAll<HTMLElement>(".odometer-digit"))
+      .toReversed()
+
+    return true
+  }
+
+  /**
+   * Checks whether server-rendered digits and formatting marks show the expected ones.
+   * The structure is compared rather than the HTML, so escaping, attribute order and whitespace left by minifiers or frameworks don't matter.
+   * @param {HTMLElement} inside - The existing `odometer-inside` container.
+   * @param {MarkupPart[]} parts - The digits and marks the client renders, in reading order.
+   * @returns {boolean} `true` if every digit value, mark text and mark class matches.
+   */
+  matchesMarkup(inside: HTMLElement, parts: MarkupPart[]): boolean {
+    // Text between the digits would be displayed along with them
+    for (const node of Array.from(inside.childNodes)) {
+      if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
+        return false
+      }
+    }
+
+    const children = Array.from(inside.children)
+
+    if (children.length !== parts.length) {
+      return false
+    }
+
+    return parts.every((part, i) => {
+      const child = children[i]
+
+      if (!child) {
+        return false
+      }
+
+      if (part.digit) {
+        const values = child.querySelectorAll(".odometer-value")
+
+        return child.classList.contains("odometer-digit")
+          && values.length === 1
+          && values[0]?.textContent === part.value
+      }
+
+      const classes = `odometer-formatting-mark ${part.className ?? ""}`.split(" ")
+        .filter(Boolean)
+
+      return classes.every((name) => child.classList.contains(name))
+        && child.textContent === part.value
+    })
+  }
+
+  /**
+   * Applies the theme selected by the `theme` option.
+   * Its styles are added once to the document (or the shadow root holding the odometer), and the `odometer-theme-<name>` class is set on the root element.
+   * @returns {void}
+   * @throws {Error} If the theme isn't registered.
+   */
+  applyTheme(): void {
+    const { theme } = this.options
+
+    if (!theme) {
+      return
+    }
+
+    const css = LightOdometer.themes[theme]
+
+    if (css == null) {
+      throw new Error(`LightOdometer: Unknown theme "${theme}"`)
+    }
+
+    const root = this.el.getRootNode()
+
+    adoptStyles(root instanceof ShadowRoot
+      ? root
+      : document, `theme-${theme}`, css)
+    addClass(this.el, `odometer-theme-${theme}`)
+  }
+
+  /**
+   * Formats the given value into individual digits and renders them.
+   * If a custom format function is provided, it uses that to format the value.
+   * Otherwise, it preserves the precision and formats the value based on the odometer's configuration.
+   * @param {number | DecimalString} value - The value to format and render as digits. Decimal strings are formatted without going through floats, except for `formatFunction`.
+   * @returns {void}
+   */
+  formatDigits(value: number | DecimalString): void {
+    this.digits = []
+
+    for (const part of this.getMarkupParts(value).toReversed()) {
+      this.addMarkupPart(part)
+    }
+
+    if (this.options.notation === "compact" && !this.format.alphabet) {
+      this.updateCompactMark(this.splitCompact(value))
+    }
+  }
+
+  /**
+   * Splits a value into the mantissa and unit of the compact notation, following `Intl.NumberFormat` or `COMPACT_UNITS`.
+   * @param {number | DecimalString} value - The value to split.
+   * @returns {CompactValue} The mantissa, unit and power of ten of the unit.
+   */
+  splitCompact(value: number | DecimalString): CompactValue {
+    return splitCompact(value, this.format, this._compactIntl)
+  }
+
+  /**
+   * Keeps track of the compact unit on screen, and plays the transition of the `odometer-compact-mark` when it changes during an animation, or as a slide animation lands.
+   * The new unit slides in from below when the unit grows and from above when it shrinks, through the Web Animations API when available.
+   * @param {CompactValue} compact - The compact value now on screen.
+   * @returns {void}
+   */
+  updateCompactMark(compact: CompactValue): void {
+    const previous = this._compact
+
+    this._compact = compact
+
+    if (!this._isAnimating || !previous || previous.unit === compact.unit) {
+      return
+    }
+
+    const mark = this.inside.querySelector<HTMLElement>(".odometer-compact-mark")
+
+    if (!mark) {
+      return
+    }
+
+    addClass(mark, "odometer-compact-entering")
+
+    if (typeof mark.animate !== "function") {
+      return
+    }
+
+    const offset = compact.exponent > previous.exponent
+      ? "50%"
+      : "-50%"
+
+    this._unitFade?.cancel()
+    this._unitFade = mark.animate([ {
+      opacity: 0, transform: `translateY(${offset})`,
+    }, {
+      opacity: 1, transform: "none",
+    } ], {
+      duration: Math.min(this.options.duration ?? DURATION, CROSSFADE_DURATION), easing: "ease-out",
+    })
+  }
+
+  /**
+   * Splits a value into the digits and formatting marks of a static render, following `formatFunction`, `Intl.NumberFormat` or the format.
+   * @param {number | DecimalString} value - The value to split.
+   * @returns {MarkupPart[]} The digits and marks, in reading order.
+   */
+  getMarkupParts(value: number | DecimalString): MarkupPart[] {
+    return getMarkupParts(value, this.format, {
+      formatFunction: this.options.formatFunction,
+      intl: this._intl,
+      notation: this.options.notation,
+      compactIntl: this._compactIntl,
+    })
+  }
+
+  /**
+   * Ensures the value maintains the specified precision by adding trailing zeros if necessary.
+   * This is used to keep the decimal places consistent at the end of the animation.
+   * @param {number | DecimalString} value - The value to format with preserved precision.
+   * @returns {string} The value as a string with the required precision.
+   */
+  preservePrecision(value: number | DecimalString): string {
+    return preservePrecision(value, this.format)
+  }
+
+  /**
+   * Updates the odometer to display a new value.
+   * Cleans and normalizes the input value, determines the difference from the current value, and triggers the appropriate animations and DOM updates.
+   * @param {LightOdometerValue} newValue - The new value to update the odometer to.
+   * @returns {number} The updated value of the odometer.
+   */
+  update(newValue: LightOdometerValue): number {
+    return this.applyUpdate(this.options.precise
+      ? this.cleanExact(newValue)
+      : this.cleanValue(newValue))
+  }
+
+  /**
+   * Sets the odometer to a new value, animated like `update()` does or displayed right away.
+   * @param {LightOdometerValue} newValue - The new value of the odometer.
+   * @param {LightOdometerSetOptions} [options] - `animate: false` skips the animation, see `jumpTo()`, and `start` sets when it begins.
+   * @returns {number} The updated value of the odometer.
+   */
+  set(newValue: LightOdometerValue, options?: LightOdometerSetOptions): number {
+    if (!(options?.animate ?? true)) {
+      return this.jumpTo(newValue)
+    }
+
+    return this.applyUpdate(this.options.precise
+      ? this.cleanExact(newValue)
+      : this.cleanValue(newValue), options?.start)
+  }
+
+  /**
+   * Displays a new value right away, without animating, i.e. when resetting the odometer after a data reload.
+   * A running animation is cancelled, a value held by the visible trigger is dropped, then the `odometerset` custom event is dispatched.
+   * @param {LightOdometerValue} newValue - The new value of the odometer.
+   * @returns {number} The updated value of the odometer.
+   */
+  jumpTo(newValue: LightOdometerValue): number {
+    const value = this.options.precise
+      ? this.cleanExact(newValue)
+      : this.cleanValue(newValue)
+
+    if (!isBrowser()) {
+      this.setCurrent(value)
+
+      return this.value
+    }
+
+    const oldValue = this._isAnimating
+      ? this.interruptAnimation()
+      : this.getCurrent()
+
+    // The held value would animate over this one once the odometer is revealed
+    this._pendingValue = undefined
+    this.cancelPendingUpdates("superseded")
+
+    removeClass(
+      this.el,
+      "odometer-animating-up odometer-animating-down odometer-animating",
+    )
+
+    this.setCurrent(value)
+    this.render()
+
+    trigger(this.el, "odometerset", {
+      id: this.options.id,
+      el: this.el,
+      instance: this,
+      value: this.value,
+      exactValue: this._exact,
+      oldValue: Number(oldValue),
+      formattedValue: this.getFormattedValue(this.getCurrent()),
+      options: this.getOptions(),
+    })
+
+    return this.value
+  }
+
+  /**
+   * Updates the odometer to display an already cleaned value.
+   * Values held by the visible trigger go through here so they aren't normalized twice.
+   * @param {number | DecimalString} newValue - The cleaned value, as an exact decimal string in `precise` mode.
+   * @param {number} [start] - Time the animation starts at on the scheduler's clock. Defaults to now.
+   * @returns {number} The updated value of the odometer.
+   */
+  applyUpdate(newValue: number | DecimalString, start?: number): number {
+    if (!isBrowser()) {
+      this.setCurrent(newValue)
+
+      return this.value
+    }
+
+    // Out of view, the value is held until the odometer becomes visible
+    if (this.isVisibilityTriggered() && !this._visible) {
+      if (newValue !== this._pendingValue) {
+        this.cancelPendingUpdates("superseded")
+      }
+
+      this._pendingValue = newValue === this.getCurrent()
+        ? undefined
+        : newValue
+
+      return this.value
+    }
+
+    // If the value is the same, we don't need to do anything
+    if (newValue === this.getCurrent()) {
+      return this.value
+    }
+
+    // A running animation is picked up from the digits currently on screen
+    const oldValue = this._isAnimating
+      ? this.interruptAnimation()
+      : this.getCurrent()
+    const diff = this.compareValues(newValue, oldValue)
+
+    if (!diff) {
+      this.setCurrent(newValue)
+      this.render()
+
+      return this.value
+    }
+
+    removeClass(
+      this.el,
+      "odometer-animating-up odometer-animating-down odometer-animating",
+    )
+
+    if (diff > 0) {
+      addClass(this.el, "odometer-animating-up")
+    } else {
+      addClass(this.el, "odometer-animating-down")
+    }
+
+    // mark animating and dispatch start event
+    this._isAnimating = true
+    trigger(this.el, "odometerstart", {
+      id: this.options.id,
+      el: this.el,
+      instance: this,
+      value: Number(newValue),
+      exactValue: typeof newValue === "string"
+        ? newValue
+        : undefined,
+      oldValue: Number(oldValue),
+      options: this.getOptions(),
+    })
+
+    this.setCurrent(newValue)
+    this._animation = {
+      from: Number(oldValue),
+      to: this.value,
+      start: start ?? this.getScheduler().now(),
+      scale: 1,
+      exactFrom: typeof oldValue === "string"
+        ? oldValue
+        : undefined,
+    }
+
+    this.stopWatchingMutations()
+    this.animate(newValue, oldValue)
+    this.startWatchingMutations()
+
+    // The starting styles are laid out with the other instances' before the transitions are triggered
+    const reveal: FrameTask = {
+      read: () => {
+        if (this._isAnimating) {
+          void this.el.offsetHeight
+        }
+      },
+      write: () => {
+        this.unschedule(reveal)
+
+        // Animations finishing right away leave nothing to reveal
+        if (this._isAnimating) {
+          addClass(this.el, "odometer-animating")
+        }
+      },
+    }
+
+    this.schedule(reveal)
+
+    return this.value
+  }
+
+  /**
+   * Compares two cleaned values, with BigInt arithmetic when either of them is an exact decimal string.
+   * @param {number | DecimalString} a - The first value.
+   * @param {number | DecimalString} b - The second value.
+   * @returns {number} A positive number if `a` is greater than `b`, a negative one if it is lower, `0` if they are equal.
+   */
+  compareValues(a: number | DecimalString, b: number | DecimalString): number {
+    if (typeof a === "number" && typeof b === "number") {
+      return a - b
+    }
+
+    const digits = getValueDigits(this.format)
+    const diff = toScaledInteger(a, digits) - toScaledInteger(b, digits)
+
+    return Number(diff > 0n) - Number(diff < 0n)
+  }
+
+  /**
+   * Updates the odometer to display a new value and waits for the animation to complete.
+   * The promise rejects with a `LightOdometerCancelError` if a newer update supersedes the animation or the instance gets disconnected.
+   * @param {LightOdometerValue} newValue - The new value to update the odometer to.
+   * @returns {Promise<LightOdometerEventDetail>} Resolves with the `odometerdone` event detail.
+   */
+  updateAsync(newValue: LightOdometerValue): Promise<LightOdometerEventDetail> {
+    return new Promise((resolve, reject) => {
+      if (this.destroyed) {
+        reject(new LightOdometerCancelError("disconnected", this.cleanValue(newValue), this.options.precise
+          ? this.cleanExact(newValue)
+          : undefined))
+
+        return
+      }
+
+      this.update(newValue)
+
+      if (this._isAnimating || this._pendingValue != null) {
+        this._settlers.push({
+          resolve, reject,
+        })
+
+        return
+      }
+
+      // Nothing to animate, the value is already displayed
+      resolve({
+        id: this.options.id,
+        el: this.el,
+        instance: this,
+        value: this.value,
+        exactValue: this._exact,
+        options: this.getOptions(),
+      })
+    })
+  }
+
+  /**
+   * Creates and returns a new digit element for the odometer.
+   * The digit element is generated from the predefined `DIGIT_HTML` template.
+   * @returns {HTMLElement} The newly created digit element.
+   */
+  renderDigit(): HTMLElement {
+    return createFromHTML(DIGIT_HTML)
+  }
+
+  /**
+   * Inserts a digit element into the odometer's inner container.
+   * If a reference element (`before`) is provided, the digit is inserted before it.
+   * Otherwise, the digit is appended to the container or inserted at the beginning if other children exist.
+   * @param {HTMLElement} digit - The digit element to insert.
+   * @param {HTMLElement | null} [before] - The reference element to insert the digit before. Defaults to `null`.
+   * @returns {HTMLElement} The inserted digit element.
+   */
+  insertDigit(digit: HTMLElement, before?: HTMLElement | null): HTMLElement {
+    if (before) {
+      return this.inside.insertBefore(digit, before)
+    } else if (!this.inside.children.length) {
+      return this.inside.appendChild(digit)
+    } else {
+      return this.inside.insertBefore(digit, this.inside.firstElementChild)
+    }
+  }
+
+  /**
+   * Creates and inserts a spacer element into the odometer's inner container.
+   * A spacer is a non-digit element (e.g., a comma or decimal point) used for formatting.
+   * @param {string} chr - The character to display in the spacer.
+   * @param {HTMLElement | null} [before] - The reference element to insert the spacer before. Defaults to `null`.
+   * @param {string} [extraClasses] - Additional CSS classes to apply to the spacer element.
+   * @returns {HTMLElement} The inserted spacer element.
+   */
+  addSpacer(
+    chr: string,
+    before?: HTMLElement | null,
+    extraClasses?: string,
+  ): HTMLElement {
+    const spacer = createFromHTML(FORMAT_MARK_HTML)
+
+    spacer.textContent = chr
+
+    if (extraClasses) {
+      addClass(spacer, extraClasses)
+    }
+
+    return this.insertDigit(spacer, before)
+  }
+
+  /**
+   * Adds a digit or spacer element to the odometer's inner container.
+   * Handles special cases for negation (`-`) and radix (`.`) characters, and ensures the format's repeating pattern is respected.
+   * @param {string} value - The digit or character to add.
+   * @param {boolean} [repeating=true] - Whether to use the repeating format pattern. Defaults to `true`.
+   * @returns {HTMLElement} The inserted digit or spacer element.
+   * @throws {Error} If the format string is invalid or lacks digits.
+   */
+  addDigit(value: string, repeating?: boolean): HTMLElement {
+    repeating ??= true
+
+    if (value === "-") {
+      return this.addSpacer(value, null, "odometer-negation-mark")
+    }
+
+    if (value === ".") {
       return this.addSpacer(
         this.format.radix ?? ".",
         null,
@@ -593,74 +1672,244 @@ export class LightOdometer {
     return this.insertDigit(digit)
   }
 
+  /**
+   * Adds a static digit or a formatting mark to the odometer's inner container, in front of the existing ones.
+   * @param {MarkupPart} part - The digit or mark to add.
+   * @returns {HTMLElement} The inserted digit or spacer element.
+   */
+  addMarkupPart(part: MarkupPart): HTMLElement {
+    if (!part.digit) {
+      return this.addSpacer(part.value, null, part.className)
+    }
+
+    const digit = this.renderDigit()
+    const valEl = digit.querySelector<HTMLElement>(".odometer-value")!
+
+    valEl.textContent = part.value
+    // In static (non-animated) render, mark as both first and last for CSS hooks
+    addClass(valEl, "odometer-first-value odometer-last-value")
+    this.digits.push(digit)
+
+    return this.insertDigit(digit)
+  }
+
+  /**
+   * Adds a part produced by `Intl.NumberFormat.formatToParts()` to the odometer's inner container.
+   * Integer and fraction parts become digits, decimal and minus signs get their mark classes, every other part (grouping, currency, percent, literals) becomes a plain formatting mark.
+   * @param {Intl.NumberFormatPart} part - The part to add.
+   * @param {string} [fill] - Character displayed in every digit instead of the part's own digits. Used when laying out ribbons.
+   * @returns {void}
+   */
+  addIntlPart(part: Intl.NumberFormatPart, fill?: string): void {
+    for (const markup of getIntlMarkupParts(part, fill).toReversed()) {
+      this.addMarkupPart(markup)
+    }
+  }
+
+  /**
+   * Calculates the maximum number of fractional digits `Intl.NumberFormat` displays among the provided numbers.
+   * Accounts for `minimumFractionDigits`, which can keep trailing zeros the numbers themselves don't have.
+   * @param {...(number | DecimalString)} values - A list of numbers to evaluate.
+   * @returns {number} The maximum number of displayed fractional digits.
+   */
+  getIntlFractionalDigitCount(...values: (number | DecimalString)[]): number {
+    let count = 0
+
+    for (const value of values) {
+      for (const part of this._intl?.formatToParts(value) ?? []) {
+        if (part.type === "fraction") {
+          count = Math.max(count, part.value.length)
+        }
+      }
+    }
+
+    return count
+  }
+
+  /**
+   * Lays out the digits and formatting marks of a slide animation with `Intl.NumberFormat`.
+   * A sample number with the right amount of integer and fractional digits is formatted so grouping separators, the decimal symbol and the minus sign land where the locale expects them.
+   * @param {number} digitCount - The number of animated digit columns.
+   * @param {number} fractionalCount - How many of those columns are fractional digits.
+   * @param {boolean} negative - Whether the layout should contain a minus sign.
+   * @returns {void}
+   */
+  layoutIntlDigits(digitCount: number, fractionalCount: number, negative: boolean): void {
+    // Formatters are kept per fractional digit count until `locale` or `numberFormat` change
+    let formatter = this._layoutIntl.get(fractionalCount)
+
+    if (!formatter) {
+      formatter = new Intl.NumberFormat(this.options.locale, {
+        ...this.getNumberFormatOptions(),
+        minimumFractionDigits: fractionalCount,
+        maximumFractionDigits: fractionalCount,
+      })
+      this._layoutIntl.set(fractionalCount, formatter)
+    }
+    const integerCount = Math.max(digitCount - fractionalCount, 1)
+    const fractionalSample = fractionalCount
+      ? `.${"8".repeat(fractionalCount)}`
+      : ""
+    const sample = Number(`${"8".repeat(integerCount)}${fractionalSample}`) / (this.format.scale ?? 1)
+    const parts = formatter.formatToParts(negative
+      ? -sample
+      : sample)
+
+    for (const part of parts.toReversed()) {
+      this.addIntlPart(part, "0")
+    }
+  }
+
   /**
    * Animates the odometer to transition to a new value.
    * Chooses the appropriate animation method (`count` or `slide`) based on the configuration and browser support.
-   * @param {number} newValue - The new value to animate the odometer to.
+   * @param {number | DecimalString} newValue - The new value to animate the odometer to.
+   * @param {number | DecimalString} [oldValue] - The value to animate from. Defaults to the current value (`this.value`).
    * @returns {void}
    */
-  animate(newValue: number): void {
-    if (this.options.animation === "count") {
-      this.animateCount(newValue)
+  animate(newValue: number | DecimalString, oldValue?: number | DecimalString): void {
+    if (this.prefersReducedMotion()) {
+      this.animateReduced(newValue)
+    } else if (this.options.animation === "count") {
+      this.animateCount(newValue, oldValue)
     } else {
-      this.animateSlide(newValue)
+      this.animateSlide(newValue, oldValue)
+    }
+  }
+
+  /**
+   * Transitions the odometer to a new value without motion, for users who prefer reduced motion.
+   * Depending on `reducedMotionEffect`, it either jumps straight to the new value or crossfades to it.
+   * Crossfading falls back to jumping when the Web Animations API isn't available.
+   * @param {number | DecimalString} newValue - The new value to display.
+   * @returns {void}
+   */
+  animateReduced(newValue: number | DecimalString): void {
+    if (this._animation) {
+      this._animation.reduced = true
+    }
+
+    if (this.options.reducedMotionEffect !== "crossfade" || typeof this.inside.animate !== "function") {
+      this.finishAnimation()
+
+      return
+    }
+
+    const half = Math.min(this.options.duration ?? DURATION, CROSSFADE_DURATION) / 2
+
+    this._fade = this.inside.animate([ { opacity: 1 }, { opacity: 0 } ], {
+      duration: half, fill: "forwards",
+    })
+    this._fade.onfinish = () => {
+      if (this._animation) {
+        this._animation.displayed = newValue
+      }
+
+      this.render(newValue)
+      // The fade out holds the digits hidden until it is cancelled
+      this._fade?.cancel()
+      this._fade = this.inside.animate([ { opacity: 0 }, { opacity: 1 } ], { duration: half })
+      this._fade.onfinish = () => {
+        this._fade = undefined
+        this.finishAnimation()
+      }
     }
   }
 
   /**
    * Animates the odometer by incrementing or decrementing the value over time.
    * Uses a "counting" animation to transition smoothly to the new value.
-   * @param {number} newValue - The new value to animate the odometer to.
+   * Progress is computed from the elapsed time and the `easing` option, so the last frame always lands on the new value.
+   * @param {number | DecimalString} newValue - The new value to animate the odometer to.
+   * @param {number | DecimalString} [oldValue] - The value to count from. Defaults to the current value (`this.value`).
    * @returns {void}
    */
-  animateCount(newValue: number): void {
+  animateCount(newValue: number | DecimalString, oldValue?: number | DecimalString): void {
     if (!isBrowser()) {
       return
     }
 
-    // If the value is the same, we don't need to do anything
-    const diff = newValue - this.value
+    const from = oldValue ?? this.getCurrent()
 
-    if (!diff) {
+    // If the value is the same, we don't need to do anything
+    if (!this.compareValues(newValue, from)) {
       return
     }
 
-    const start = now()
-    let last = start
+    const interpolate = this.createInterpolation(from, newValue)
+    const ease = resolveEasing(this.options.easing)
+    const scheduler = this.getScheduler()
+    let last = scheduler.now()
 
-    let cur = this.value
-    const tick = () => {
-      if (now() - start > (this.options.duration || 0)) {
-        this.value = newValue
-        this.render()
-        this._isAnimating = false
-        trigger(this.el, "odometerdone", {
-          id: this.options.id,
-          el: this.el,
-          instance: this,
-          value: this.value,
-          options: this.getOptions(),
-        })
+    // Renders the value at the elapsed time, or ends the animation once its duration is over
+    const frame = (): boolean => {
+      const elapsed = this.getElapsed()
+      const duration = this.options.duration || 0
 
-        return
+      if (elapsed >= duration) {
+        this.setCurrent(newValue)
+        this.finishAnimation()
+
+        return false
       }
 
-      const delta = now() - last
+      // A delayed animation holds its first value until it starts
+      const progress = Math.max(elapsed, 0) / duration
+      const displayed = interpolate(ease(progress))
 
-      if (delta > this._countMsPerFrame) {
-        last = now()
+      if (this._animation) {
+        this._animation.displayed = displayed
+      }
 
-        const fraction = delta / (this.options.duration || 0)
-        const dist = diff * fraction
+      this.render(displayed)
+      this.emitFrame(progress)
 
-        cur += dist
-        this.render(Math.round(cur))
-      }
+      return true
+    }
 
-      this._countRafId = safeRaf(tick)
+    const tick: FrameTask = {
+      write: () => {
+        // Frames are throttled to the count framerate, the end of the animation isn't
+        if (this.getElapsed() < (this.options.duration || 0) && scheduler.now() - last <= this._countMsPerFrame) {
+          return
+        }
+
+        last = scheduler.now()
+        frame()
+      },
+    }
+
+    this._driver = {
+      render: frame,
+      pause: () => {
+        this.unschedule(tick)
+      },
+      resume: () => {
+        this.schedule(tick)
+      },
+    }
+    this.schedule(tick)
+  }
+
+  /**
+   * Creates a function returning the value at a given progress between two values, rounded to the format precision.
+   * Exact decimal strings are interpolated with BigInt arithmetic so large values don't lose digits along the way.
+   * @param {number | DecimalString} from - The value at progress 0.
+   * @param {number | DecimalString} to - The value at progress 1.
+   * @returns {(progress: number) => number | DecimalString} The interpolation function.
+   */
+  createInterpolation(from: number | DecimalString, to: number | DecimalString): (progress: number) => number | DecimalString {
+    if (typeof from === "number" && typeof to === "number") {
+      return (progress) => this.cleanValue(from + ((to - from) * progress))
     }
 
-    this._countRafId = safeRaf(tick)
+    const digits = getValueDigits(this.format)
+    const start = toScaledInteger(from, digits)
+    const span = toScaledInteger(to, digits) - start
+    // Progress ratios are turned into fractions of this many parts
+    const parts = 1_000_000_000n
+
+    return (progress) => formatDecimal(start + divideRounded(span * BigInt(Math.round(progress * Number(parts))), parts), digits)
   }
 
   /**
@@ -737,61 +1986,105 @@ export class LightOdometer {
   /**
    * Animates the odometer to transition to a new value using a sliding animation.
    * Breaks the value into individual digits, calculates the frames for each digit's animation, and updates the DOM to reflect the sliding effect.
-   * @param {number} newValue - The new value to animate the odometer to.
+   * @param {number | DecimalString} newValue - The new value to animate the odometer to.
+   * @param {number | DecimalString} [oldValue] - The value to slide from. Defaults to the current value (`this.value`).
    * @returns {void}
    */
-  animateSlide(newValue: number): void {
+  animateSlide(newValue: number | DecimalString, oldValue?: number | DecimalString): void {
     if (!isBrowser()) {
       return
     }
 
-    let oldValue = this.value
+    oldValue ??= this.getCurrent()
 
-    // Fix to animate always the fixed decimal digits passed in input
-    const fractionalCount = this.format.precision
+    // With the compact notation, ribbons roll between the mantissas while the unit switches on its own
+    const compact = this.options.notation === "compact" && !this.format.alphabet
+      ? this.splitCompact(newValue)
+      : undefined
+    let previous: CompactValue | undefined
+
+    if (compact) {
+      previous = this.splitCompact(oldValue)
+
+      newValue = compact.mantissa
+      oldValue = previous.mantissa
+
+      if (this._animation) {
+        this._animation.exponent = compact.exponent
+        this._animation.unitChanged = compact.unit !== previous.unit
+      }
+    }
 
-    if (fractionalCount) {
-      newValue = newValue * Math.pow(10, fractionalCount)
-      oldValue = oldValue * Math.pow(10, fractionalCount)
+    // Fix to animate always the fixed decimal digits passed in input
+    const fractionalCount = this._intl
+      ? this.getIntlFractionalDigitCount(oldValue, newValue)
+      : this.format.precision
+    const scaleDigits = fractionalCount + Math.round(Math.log10(this.format.scale ?? 1))
+    // Ribbon integers are computed with BigInt so values beyond 2^53 keep all their digits
+    const to = toScaledInteger(newValue, scaleDigits)
+    const from = toScaledInteger(oldValue, scaleDigits)
+
+    if (this._animation) {
+      this._animation.scale = Math.pow(10, scaleDigits)
     }
 
     // If the value is the same, we don't need to do anything
-    const diff = newValue - oldValue
+    const diff = to - from
 
     if (!diff) {
+      // A compact mantissa can stay the same while the value changes (1.21K to 1.24K)
+      if (this._isAnimating) {
+        this.finishAnimation()
+      }
+
       return
     }
 
+    // Ribbons show absolute values, so they roll up when moving away from zero, even for negative values (-50 to -80).
+    // Across zero, they follow the longer half of the way. Mantissas of different units can also roll the other way than the value (999 to 1.2K)
+    const up = absolute(to) === absolute(from)
+      ? diff > 0n
+      : absolute(to) > absolute(from)
+
+    removeClass(this.el, "odometer-animating-up odometer-animating-down")
+    addClass(this.el, up
+      ? "odometer-animating-up"
+      : "odometer-animating-down")
+
+    if (this._animation) {
+      this._animation.up = up
+    }
+
     this.bindTransitionEnd()
 
     const digits: number[][] = []
-    const digitCount = this.getDigitCount(oldValue, newValue)
+    // Ribbons roll through the symbols of the alphabet, in the base of its length
+    const alphabet = this.format.alphabet
+    const base = BigInt(alphabet?.length ?? 10)
+    const digitCount = countDigits([ from, to ], base)
     let boosted = 0
-    let start = oldValue
+    let start = from
 
     // We create an array to represent the series of digits which should be animated in each column
     for (let i = 0; i < digitCount; i++) {
-      // We need to get the digit at the current position
-      start = truncate(oldValue / Math.pow(10, digitCount - i - 1))
-      const end = truncate(newValue / Math.pow(10, digitCount - i - 1))
+      // We need to get the digit at the current position, BigInt division truncates
+      const divisor = base ** BigInt(digitCount - i - 1)
 
-      const dist = end - start
+      start = from / divisor
+      const end = to / divisor
 
-      let frames: number[]
+      const dist = end - start
 
-      if (Math.abs(dist) > this.MAX_VALUES) {
-        // We need to subsample
-        frames = []
+      const frames: bigint[] = []
 
-        // Subsequent digits need to be faster than previous ones
-        const denominator = this.MAX_VALUES * (1 + (boosted * DIGIT_SPEEDBOOST))
-        const incr = dist / denominator
-        let cur = start
+      if (absolute(dist) > BigInt(this.MAX_VALUES)) {
+        // We need to subsample, subsequent digits need to be faster than previous ones
+        const denominator = Math.max(this.MAX_VALUES * (1 + (boosted * DIGIT_SPEEDBOOST)), 1)
+        // The denominator isn't always an integer, it's kept to a thousandth in BigInt arithmetic
+        const exactDenominator = BigInt(Math.round(denominator * 1000))
 
-        // oxlint-disable-next-line no-unmodified-loop-condition
-        while ((dist > 0 && cur < end) || (dist < 0 && cur > end)) {
-          frames.push(Math.round(cur))
-          cur += incr
+        for (let step = 0; step < denominator; step++) {
+          frames.push(start + divideRounded(dist * BigInt(step * 1000), exactDenominator))
         }
 
         if (frames[frames.length - 1] !== end) {
@@ -800,28 +2093,32 @@ export class LightOdometer {
 
         boosted++
       } else {
-        frames = this.createRange(start, end, true)
-      }
-
-      // We only care about the last digit
-      for (let j = 0; j < frames.length; j++) {
-        const frame = frames[j] ?? 0
+        const step = dist > 0n
+          ? 1n
+          : -1n
 
-        frames[j] = Math.abs(frame % 10)
+        for (let frame = start; frame !== end + step; frame += step) {
+          frames.push(frame)
+        }
       }
 
-      digits.push(frames)
+      // We only care about the last digit
+      digits.push(frames.map((frame) => Number(absolute(frame % base))))
     }
 
     this.resetDigits()
 
+    if (this._intl) {
+      this.layoutIntlDigits(digits.length, fractionalCount, from < 0n || to < 0n)
+    }
+
     const reversedDigits = digits.toReversed()
 
     for (let i = 0; i < reversedDigits.length; i++) {
       let frames = reversedDigits[i] ?? []
 
       if (!this.digits[i]) {
-        this.addDigit(" ", i >= fractionalCount)
+        this.addDigit(" ", !this._intl && i >= fractionalCount)
       }
 
       const digit = this.digits[i]
@@ -846,7 +2143,7 @@ export class LightOdometer {
 
       ribbon.textContent = ""
 
-      if (diff < 0) {
+      if (!up) {
         frames = frames.toReversed()
       }
 
@@ -855,7 +2152,7 @@ export class LightOdometer {
         const numEl = document.createElement("div")
 
         numEl.className = "odometer-value"
-        numEl.textContent = frame.toString()
+        numEl.textContent = alphabet?.[frame] ?? this.format.numerals?.[frame] ?? frame.toString()
 
         ribbon.appendChild(numEl)
 
@@ -869,23 +2166,376 @@ export class LightOdometer {
       }
     }
 
-    if (start < 0) {
-      this.addDigit("-")
+    // Intl layouts already contain their own minus sign and decimal symbol
+    if (!this._intl) {
+      if (from < 0n || to < 0n) {
+        this.addDigit("-")
+      }
+
+      const mark = this.inside.querySelector(".odometer-radix-mark")
+
+      if (mark) {
+        mark.parentNode!.removeChild(mark)
+      }
+
+      if (fractionalCount) {
+        this.addSpacer(
+          this.format.radix ?? ".",
+          this.digits[fractionalCount - 1],
+          "odometer-radix-mark",
+        )
+      }
+    }
+
+    // The unit still matches the ribbons' first value, the final render swaps it once they land
+    if (previous?.unit) {
+      this.inside.appendChild(this.addSpacer(previous.unit, null, "odometer-compact-mark"))
     }
 
-    const mark = this.inside.querySelector(".odometer-radix-mark")
+    this.transitionWidth(from, to, fractionalCount, base)
 
-    if (mark) {
-      mark.parentNode!.removeChild(mark)
+    if ((from < 0n) !== (to < 0n)) {
+      this.fadeNegationMark(from, to)
     }
 
-    if (fractionalCount) {
-      this.addSpacer(
-        this.format.radix ?? ".",
-        this.digits[fractionalCount - 1],
-        "odometer-radix-mark",
-      )
+    this.addAffixes()
+    this.startSlide(up)
+  }
+
+  /**
+   * Marks the leading digits added or removed by a slide animation, along with the grouping marks between them, and dispatches `odometerlayout`.
+   * They get the `odometer-digit-entering` or `odometer-digit-leaving` class, and with `widthTransition` their width and opacity are animated through the Web Animations API when available, from the next frame once measured.
+   * @param {bigint} from - The ribbon integer the animation starts from.
+   * @param {bigint} to - The ribbon integer the animation ends on.
+   * @param {number} fractionalCount - The number of fractional digits displayed.
+   * @param {bigint} base - The base the ribbons roll in.
+   * @returns {void}
+   */
+  transitionWidth(from: bigint, to: bigint, fractionalCount: number, base: bigint): void {
+    // Values below one still show a zero before the radix mark
+    const oldDigitCount = Math.max(countDigits([ from ], base) - fractionalCount, 1)
+    const digitCount = Math.max(countDigits([ to ], base) - fractionalCount, 1)
+
+    if (digitCount === oldDigitCount) {
+      return
+    }
+
+    const entering = digitCount > oldDigitCount
+    const changing = this.digits.slice(fractionalCount + Math.min(digitCount, oldDigitCount), fractionalCount + Math.max(digitCount, oldDigitCount))
+    const elements: HTMLElement[] = []
+    let node = this.digits[fractionalCount + Math.min(digitCount, oldDigitCount) - 1]?.previousElementSibling
+
+    // Walk towards the most significant changing digit, picking up the grouping marks on the way
+    while (node instanceof HTMLElement && (changing.includes(node) || node.className === "odometer-formatting-mark")) {
+      elements.push(node)
+
+      if (node === changing[changing.length - 1]) {
+        break
+      }
+
+      node = node.previousElementSibling
+    }
+
+    const duration = this.options.duration ?? DURATION
+    const animated: HTMLElement[] = []
+
+    for (const element of elements) {
+      addClass(element, entering
+        ? "odometer-digit-entering"
+        : "odometer-digit-leaving")
+
+      if (!this.options.widthTransition || typeof element.animate !== "function") {
+        continue
+      }
+
+      // Inline formatting marks have no width of their own to animate
+      element.style.display = "inline-block"
+      element.style.overflow = "hidden"
+      animated.push(element)
+    }
+
+    if (animated.length) {
+      let widths: number[] = []
+
+      // The widths are measured along with the other instances' reads, and animated from the next write
+      const measure: FrameTask = {
+        read: () => {
+          widths = animated.map((element) => element.getBoundingClientRect().width)
+        },
+        write: () => {
+          this.unschedule(measure)
+
+          if (!this._isAnimating) {
+            return
+          }
+
+          for (const [ i, element ] of animated.entries()) {
+            const keyframes: Keyframe[] = [ {
+              width: "0px", opacity: 0,
+            }, {
+              width: `${widths[i] ?? 0}px`, opacity: 1,
+            } ]
+            const fade = element.animate(entering
+              ? keyframes
+              : keyframes.toReversed(), {
+              duration, easing: "ease-in-out", fill: "forwards",
+            })
+
+            // Catches up with the time elapsed since the animation started, or was paused or seeked
+            fade.currentTime = this.getProgress() * duration
+
+            if (this._isPaused) {
+              fade.pause()
+            }
+
+            this._widthFades.push(fade)
+          }
+        },
+      }
+
+      this.schedule(measure)
+    }
+
+    trigger(this.el, "odometerlayout", {
+      id: this.options.id,
+      el: this.el,
+      instance: this,
+      value: this.value,
+      oldValue: this._animation?.from,
+      exactValue: this._exact,
+      digitCount,
+      oldDigitCount,
+      options: this.getOptions(),
+    })
+  }
+
+  /**
+   * Fades the minus sign in or out while the ribbons cross zero.
+   * The mark gets the `odometer-negation-entering` or `odometer-negation-leaving` class, and fades through the Web Animations API when available, around the moment zero is reached.
+   * @param {bigint} from - The ribbon integer the animation starts from.
+   * @param {bigint} to - The ribbon integer the animation ends on.
+   * @returns {void}
+   */
+  fadeNegationMark(from: bigint, to: bigint): void {
+    const mark = this.inside.querySelector<HTMLElement>(".odometer-negation-mark")
+
+    if (!mark) {
+      return
+    }
+
+    const entering = to < 0n
+
+    addClass(mark, entering
+      ? "odometer-negation-entering"
+      : "odometer-negation-leaving")
+
+    if (typeof mark.animate !== "function") {
+      return
+    }
+
+    const duration = this.options.duration ?? DURATION
+    // Ribbons roll evenly from one value to the other, so zero is reached in proportion to its distance from the start
+    const crossing = Number((absolute(from) * 1000n) / (absolute(from) + absolute(to))) / 1000
+    const fade = duration
+      ? Math.min(CROSSFADE_DURATION / duration, 1)
+      : 1
+    const offset = Math.min(crossing, 1 - fade)
+    const before = entering
+      ? 0
+      : 1
+    const after = 1 - before
+
+    this._signFade?.cancel()
+    this._signFade = mark.animate([ {
+      opacity: before, offset: 0,
+    }, {
+      opacity: before, offset,
+    }, {
+      opacity: after, offset: Math.min(offset + fade, 1),
+    }, {
+      opacity: after, offset: 1,
+    } ], {
+      duration, fill: "forwards",
+    })
+  }
+
+  /**
+   * Adds the format prefix and suffix around the digits laid out for a slide animation, so they stay in place while the ribbons move.
+   * @returns {void}
+   */
+  addAffixes(): void {
+    if (this.format.prefix) {
+      const first = this.inside.firstElementChild
+      // Negative values read '-$5.00', the prefix goes after a leading minus sign
+      const before = first instanceof HTMLElement && first.classList.contains("odometer-negation-mark")
+        ? first.nextElementSibling
+        : null
+
+      this.addSpacer(this.format.prefix, before instanceof HTMLElement
+        ? before
+        : null, "odometer-prefix")
+    }
+
+    if (this.format.suffix) {
+      const suffix = this.addSpacer(this.format.suffix, null, "odometer-suffix")
+
+      this.inside.appendChild(suffix)
+    }
+  }
+
+  /**
+   * Moves the freshly built ribbons towards their last value.
+   * With the `js` slide driver, ribbons are translated on each frame according to `duration` and `easing`.
+   * Otherwise the theme's CSS transitions move them, and the frame loop finishes the animation in case no transition runs.
+   * @param {boolean} up - Whether the odometer is animating up.
+   * @returns {void}
+   */
+  startSlide(up: boolean): void {
+    const duration = this.options.duration ?? DURATION
+
+    if (this.options.slideDriver !== "js") {
+      const delay = Math.max(-this.getElapsed(), 0)
+
+      // A delayed animation holds the ribbons until it starts
+      for (const ribbon of Object.values(this.ribbons)) {
+        ribbon.style.transitionDelay = `${delay}ms`
+      }
+
+      let reported: number | undefined
+
+      const fallback: FrameTask = {
+        // Reports the frames of the transitions, reading their computed transforms along with the other instances' reads
+        read: () => {
+          const progress = this.getProgress()
+
+          if (progress !== reported) {
+            reported = progress
+            this.emitFrame(progress)
+          }
+        },
+        write: () => {
+          if (this.getElapsed() >= duration + TRANSITION_END_TIMEOUT) {
+            this.finishAnimation()
+          }
+        },
+      }
+
+      this.schedule(fallback)
+      this._driver = {
+        render: () => {
+          const progress = this.getProgress()
+          const position = up
+            ? progress
+            : 1 - progress
+
+          // Matches the theme's transforms, which go from 0 to -100% of the ribbon's height
+          for (const ribbon of Object.values(this.ribbons)) {
+            ribbon.style.transition = "none"
+            ribbon.style.transform = `translateY(${-100 * position}%)`
+          }
+
+          return true
+        },
+        pause: () => {
+          const ribbons = Object.values(this.ribbons)
+          // Freezes the ribbons where their transition got them, read at once to lay them out only once
+          const transforms = ribbons.map((ribbon) => getComputedStyle(ribbon).transform)
+
+          this.unschedule(fallback)
+
+          for (const [ i, ribbon ] of ribbons.entries()) {
+            ribbon.style.transition = "none"
+            ribbon.style.transform = transforms[i] ?? ""
+          }
+        },
+        resume: () => {
+          const elapsed = this.getElapsed()
+          const delay = Math.max(-elapsed, 0)
+          const remaining = Math.min(Math.max(duration - elapsed, 0), duration)
+
+          for (const ribbon of Object.values(this.ribbons)) {
+            // Flushes the frozen transform, so the theme's transition picks up from it
+            void ribbon.offsetHeight
+            ribbon.style.transition = ""
+            ribbon.style.transitionDuration = `${remaining}ms`
+            ribbon.style.transitionDelay = `${delay}ms`
+            ribbon.style.transform = ""
+          }
+
+          this.schedule(fallback)
+        },
+      }
+
+      return
+    }
+
+    const ease = resolveEasing(this.options.easing)
+    const ribbons = Object.values(this.ribbons)
+    // Distance between the first and the last value of each ribbon, measured once to avoid a layout on every frame
+    let travels: number[] | undefined
+    const measure = () => ribbons.map((ribbon) => {
+      const first = ribbon.firstElementChild
+      const last = ribbon.lastElementChild
+
+      return first instanceof HTMLElement && last instanceof HTMLElement
+        ? last.offsetTop - first.offsetTop
+        : 0
+    })
+
+    for (const ribbon of ribbons) {
+      ribbon.style.transition = "none"
+    }
+
+    // Moves the ribbons to the elapsed time, or ends the animation once its duration is over
+    const frame = (): boolean => {
+      travels ??= measure()
+
+      const progress = this.getProgress()
+      const eased = ease(progress)
+      // Ribbons are reversed when animating down, so they travel back to their first value
+      const position = up
+        ? eased
+        : 1 - eased
+
+      for (const [ i, ribbon ] of ribbons.entries()) {
+        ribbon.style.transform = `translateY(${-(travels?.[i] ?? 0) * position}px)`
+      }
+
+      if (this._animation) {
+        this._animation.position = position
+      }
+
+      this.emitFrame(progress)
+
+      if (progress >= 1) {
+        this.finishAnimation()
+
+        return false
+      }
+
+      return true
+    }
+
+    // The ribbons are measured along with the other instances' reads
+    const step: FrameTask = {
+      read: () => {
+        travels ??= measure()
+      },
+      write: () => {
+        frame()
+      },
+    }
+
+    this._driver = {
+      render: frame,
+      pause: () => {
+        this.unschedule(step)
+      },
+      resume: () => {
+        this.schedule(step)
+      },
     }
+    this.schedule(step)
   }
 
   /**
@@ -909,6 +2559,49 @@ export class LightOdometer {
     )
   }
 
+  /**
+   * Renders the markup of a static odometer without touching the DOM, for server-side rendering.
+   * The output is the `odometer-inside` container with the same digits and formatting marks the client renders, followed by its `odometer-label` for screen readers, so passing `hydrate: true` to the client instance adopts it without a layout shift.
+   * @param {LightOdometerValue} value - The value to render.
+   * @param {Partial<LightOdometerOptions>} [options] - The formatting options of the odometer (`format`, `locale`, `numberFormat`, `formatFunction`, `precise`, `prefix`, `suffix`, `notation`, `alphabet`, `numberingSystem`).
+   * @returns {string} The HTML string.
+   */
+  static renderToString(value: LightOdometerValue, options?: Omit<Partial<LightOdometerOptions>, "el">): string {
+    const merged = {
+      ...LightOdometer.options, ...options,
+    }
+    const intl = !merged.alphabet && (merged.locale != null || merged.numberFormat)
+      ? new Intl.NumberFormat(merged.locale, {
+        ...merged.numberFormat,
+        numberingSystem: merged.numberingSystem ?? merged.numberFormat?.numberingSystem,
+      })
+      : undefined
+    const format = {
+      ...(intl
+        ? getIntlFormat(intl)
+        : parseFormat(merged.format, merged.alphabet, merged.numberingSystem)),
+      prefix: merged.prefix,
+      suffix: merged.suffix,
+    }
+    const cleaned = merged.precise
+      ? cleanDecimal(value, format)
+      : cleanNumber(value, format)
+    const parts = getMarkupParts(cleaned, format, {
+      formatFunction: merged.formatFunction,
+      intl,
+      notation: merged.notation,
+      compactIntl: intl && merged.notation === "compact"
+        ? new Intl.NumberFormat(merged.locale, {
+          notation: "compact", compactDisplay: merged.numberFormat?.compactDisplay,
+        })
+        : undefined,
+    })
+
+    const label = LABEL_HTML.replace("></span>", () => `>${escapeHTML(parts.map((part) => part.value).join(""))}</span>`)
+
+    return `<div class="odometer-inside" dir="ltr" aria-hidden="true">${renderMarkup(parts)}</div>${label}`
+  }
+
   /**
    * Mutate this instance's options on-the-fly.
    * Recomputes timing fields and applies changes immediately.
@@ -924,9 +2617,25 @@ export class LightOdometer {
       delete (newOptions as Partial<LightOdometerOptions> & { el?: HTMLElement }).el
     }
 
+    // Themes and surrounding text may have changed the direction since it was read
+    this._rtl = undefined
+
+    const previousOptions = this.getOptions()
     const hasValueChange = Object.prototype.hasOwnProperty.call(newOptions, "value")
     const hadFormatChange = Object.prototype.hasOwnProperty.call(newOptions, "format")
       || Object.prototype.hasOwnProperty.call(newOptions, "formatFunction")
+      || Object.prototype.hasOwnProperty.call(newOptions, "locale")
+      || Object.prototype.hasOwnProperty.call(newOptions, "numberFormat")
+      || Object.prototype.hasOwnProperty.call(newOptions, "precise")
+      || Object.prototype.hasOwnProperty.call(newOptions, "prefix")
+      || Object.prototype.hasOwnProperty.call(newOptions, "suffix")
+      || Object.prototype.hasOwnProperty.call(newOptions, "notation")
+      || Object.prototype.hasOwnProperty.call(newOptions, "alphabet")
+      || Object.prototype.hasOwnProperty.call(newOptions, "numberingSystem")
+    const hadThemeChange = Object.prototype.hasOwnProperty.call(newOptions, "theme")
+    const hadLabelChange = Object.prototype.hasOwnProperty.call(newOptions, "ariaLive")
+    const hadTriggerChange = Object.prototype.hasOwnProperty.call(newOptions, "trigger")
+      || Object.prototype.hasOwnProperty.call(newOptions, "visibleThreshold")
     const hadTimingChange = Object.prototype.hasOwnProperty.call(newOptions, "duration")
       || Object.prototype.hasOwnProperty.call(newOptions, "framerate")
       || Object.prototype.hasOwnProperty.call(newOptions, "countFramerate")
@@ -949,26 +2658,55 @@ export class LightOdometer {
       this.el.style.setProperty("--odometer-duration", `${this.options.duration}ms`)
     }
 
-    // Apply format changes
+    // Apply format changes, values follow the new precision (and turn into exact decimal strings or back)
     if (hadFormatChange) {
       this.resetFormat()
+      this.setCurrent(this.toAmount(this.getCurrent()))
+
+      if (this._pendingValue != null) {
+        this._pendingValue = this.toAmount(this._pendingValue)
+      }
+
+      if (this._replayFrom != null) {
+        this._replayFrom = this.toAmount(this._replayFrom)
+      }
     }
 
-    // If a value change was requested, animate/update to that value using the new config
-    if (hasValueChange) {
-      this.update(this.options.value ?? 0)
+    // Restart visibility tracking, releasing the held value if updates no longer wait for it
+    if (hadTriggerChange && isBrowser()) {
+      this.stopWatchingVisibility()
+      this.watchVisibility()
 
-      return
+      if (!this.isVisibilityTriggered() && this._pendingValue != null) {
+        const pending = this._pendingValue
+
+        this._pendingValue = undefined
+        this.applyUpdate(pending)
+      }
     }
 
-    // Otherwise, re-render to apply format/timing-related structural changes
-    if (hadFormatChange || hadTimingChange) {
+    // If a value change was requested, animate/update to that value using the new config
+    if (hasValueChange) {
+      this.update(this.options.value ?? 0)
+    } else if (hadFormatChange || hadThemeChange || hadTimingChange || hadLabelChange) {
+      // Otherwise, re-render to apply format/theme/timing-related structural changes
       if (isBrowser()) {
         this.stopWatchingMutations()
         this.render()
         this.startWatchingMutations()
       }
     }
+
+    trigger(this.el, "odometeroptionschange", {
+      id: this.options.id,
+      el: this.el,
+      instance: this,
+      value: this.value,
+      exactValue: this._exact,
+      changedOptions: { ...newOptions },
+      previousOptions,
+      options: this.getOptions(),
+    })
   }
 
   /**
@@ -981,13 +2719,30 @@ export class LightOdometer {
     }
   }
 
-  /** Subscribe to odometer events ("odometerstart" | "odometerdone") for this instance */
-  on(event: LightOdometerEventName, handler: EventListener): void {
+  /**
+   * Define the `<light-odometer>` custom element, or the same element under another tag name.
+   * Its `value`, `format`, `duration`, `animation`, `framerate` and `theme` attributes drive the odometer, and the `shadow` attribute renders it in a shadow root.
+   * The default tag name is defined automatically when the module loads in a browser.
+   */
+  static defineElement(tagName?: string): CustomElementConstructor | undefined {
+    return defineLightOdometerElement(LightOdometer, tagName ?? "light-odometer")
+  }
+
+  /**
+   * Register a theme selectable through the `theme` option, or replace an existing one.
+   * The CSS should target `.odometer-theme-<name>`, it is only added to the page once an odometer uses the theme.
+   */
+  static registerTheme(name: string, css: string): void {
+    LightOdometer.themes[name] = css
+  }
+
+  /** Subscribe to odometer events for this instance, the handler receives the `CustomEvent` matching the event name */
+  on<K extends LightOdometerEventName>(event: K, handler: (ev: LightOdometerEventMap[K]) => void): void {
     this.el.addEventListener(event, handler)
   }
 
   /** Unsubscribe from odometer events for this instance */
-  off(event: LightOdometerEventName, handler: EventListener): void {
+  off<K extends LightOdometerEventName>(event: K, handler: (ev: LightOdometerEventMap[K]) => void): void {
     this.el.removeEventListener(event, handler)
   }
 
@@ -1010,21 +2765,55 @@ export class LightOdometer {
    * Animate to a value exactly once and then disconnect listeners/observers.
    * Useful for static numbers that only animate on first reveal.
    */
-  animateOnceAndDisconnect(toValue?: number | string): void {
+  animateOnceAndDisconnect(toValue?: LightOdometerValue): void {
     if (toValue != null) {
       this.update(toValue)
     }
 
+    // Runs on the shared frame loop itself, so finishing the animation doesn't unschedule it
+    const loop = getFrameLoop(this.getScheduler())
+    let timeout: FrameTask | undefined
+
     // After current transition end or in next frame, disconnect
-    const finish = () => this.disconnect()
+    const finish = () => {
+      if (timeout) {
+        loop.delete(timeout)
+      }
+
+      this.disconnect()
+    }
     const once = (_e: Event) => {
       this.el.removeEventListener("odometerdone", once)
       finish()
     }
+    // Fallback in case no animation runs, so odometerdone doesn't fire
+    const fallback = () => {
+      // Past the slide's own fallback, which settles the animation first on the same loop
+      const deadline = this.getScheduler().now() + (this.options.duration ?? DURATION) + (TRANSITION_END_TIMEOUT * 2)
+
+      timeout = {
+        write: () => {
+          // A running or paused animation disconnects through odometerdone once it finishes
+          if (this._isAnimating || this._isPaused || this._pendingValue != null) {
+            return
+          }
+
+          if (this.getScheduler().now() >= deadline) {
+            finish()
+          }
+        },
+      }
+      loop.add(timeout)
+    }
 
     this.el.addEventListener("odometerdone", once, { once: true })
-    // Fallback in case transitionend/odometerdone doesn't fire
-    setTimeout(finish, (this.options.duration ?? DURATION) + 100)
+
+    // A value held by the visible trigger only starts animating once revealed
+    if (this._pendingValue == null) {
+      fallback()
+    } else {
+      this.el.addEventListener("odometerstart", fallback, { once: true })
+    }
   }
 
   /**
@@ -1036,8 +2825,24 @@ export class LightOdometer {
     }
 
     this.stopWatchingMutations()
-    safeCancelRaf(this._rafId)
-    safeCancelRaf(this._countRafId)
+    this.stopWatchingVisibility()
+
+    if (this._isAnimating) {
+      trigger(this.el, "odometercancel", {
+        id: this.options.id,
+        el: this.el,
+        instance: this,
+        value: this.value,
+        exactValue: this._exact,
+        oldValue: this._animation?.from,
+        reason: "disconnected",
+        options: this.getOptions(),
+      })
+    }
+
+    this.clearScheduled()
+    this._isAnimating = false
+    this._animation = undefined
 
     if (this._onTransitionEnd) {
       this.el.removeEventListener("transitionend", this._onTransitionEnd)
@@ -1045,7 +2850,23 @@ export class LightOdometer {
     }
 
     this.transitionEndBound = false
+
+    if (this._onReducedMotionChange) {
+      this._reducedMotionQuery?.removeEventListener("change", this._onReducedMotionChange)
+      this._onReducedMotionChange = undefined
+    }
+
     this.destroyed = true
+    this.cancelPendingUpdates("disconnected")
+
+    trigger(this.el, "odometerdestroy", {
+      id: this.options.id,
+      el: this.el,
+      instance: this,
+      value: this.value,
+      exactValue: this._exact,
+      options: this.getOptions(),
+    })
   }
 
   /**
@@ -1059,6 +2880,7 @@ export class LightOdometer {
     const snapshot = {
       id: this.options.id,
       value: this.value,
+      exactValue: this._exact,
       options,
       globalOptions: LightOdometer.getGlobalOptions(),
       watchMutations: this.watchMutations,
@@ -1068,7 +2890,10 @@ export class LightOdometer {
       isAnimating: this.isAnimating,
     }
 
-    return JSON.stringify(snapshot)
+    // BigInt values can't be serialized as is
+    return JSON.stringify(snapshot, (_key, value: unknown) => (typeof value === "bigint"
+      ? value.toString()
+      : value))
   }
 }
 
@@ -1078,4 +2903,25 @@ initGlobalOptionsDeferred(LightOdometer)
 // Initialize all existing LightOdometer instances on the page when the DOM is fully loaded
 initExistingOdometers(LightOdometer)
 
+// Register the <light-odometer> custom element
+LightOdometer.defineElement()
+
+export { LightOdometerGroup } from "./group"
+export { LightOdometerCancelError } from "../shared/errors"
+export { LightOdometerManualScheduler } from "../utils/scheduler"
+export type {
+  LightOdometerCancelDetail,
+  LightOdometerEventDetail,
+  LightOdometerEventMap,
+  LightOdometerFrameDetail,
+  LightOdometerGroupEventDetail,
+  LightOdometerGroupEventMap,
+  LightOdometerGroupOptions,
+  LightOdometerGroupValues,
+  LightOdometerHydrationDetail,
+  LightOdometerLayoutDetail,
+  LightOdometerOptionsChangeDetail,
+  LightOdometerSetOptions,
+} from "../shared/interfaces"
+
 export default LightOdometer
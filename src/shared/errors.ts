@@ -0,0 +1,21 @@
+import type { LightOdometerCancelReason } from "./interfaces"
+
+/**
+ * Error used to reject the promise returned by `updateAsync()` when its animation will never complete.
+ * @property {LightOdometerCancelReason} reason - Why the animation was cancelled.
+ * @property {number} value - The value the cancelled animation was heading to.
+ * @property {string} [exactValue] - Exact decimal string of `value` (`precise` mode only).
+ */
+export class LightOdometerCancelError extends Error {
+  readonly reason: LightOdometerCancelReason
+  readonly value: number
+  readonly exactValue?: string
+
+  constructor(reason: LightOdometerCancelReason, value: number, exactValue?: string) {
+    super(`LightOdometer: animation to ${exactValue ?? value} was ${reason}`)
+    this.name = "LightOdometerCancelError"
+    this.reason = reason
+    this.value = value
+    this.exactValue = exactValue
+  }
+}
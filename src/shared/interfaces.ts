@@ -1,41 +1,128 @@
+import type { LightOdometerGroup } from "../core/group"
 import type { LightOdometer } from "../core/odometer"
 
 /**
  * LightOdometer global options interface
  * @property {string} [selector] - The selector for the odometer elements.
  * @property {boolean} [auto] - Whether to automatically initialize odometers.
+ * @property {LightOdometerScheduler} [scheduler] - The clock and frame scheduler used by instances that don't set their own.
  */
 export interface LightOdometerGlobalOptions {
   selector?: string;
   auto?: boolean;
+  scheduler?: LightOdometerScheduler;
 }
 
 /**
  * LightOdometer config interface
  * @property {HTMLElement} el - The HTML element to attach the odometer to.
- * @property {string | number | null} [value] - The initial value of the odometer.
+ * @property {LightOdometerValue | null} [value] - The initial value of the odometer.
  * @property {string} [format] - The format string for the odometer.
  * @property {number} [duration] - The duration of the animation in milliseconds.
  * @property {number} [framerate] - Target framerate for slide animation.
  * @property {number} [countFramerate] - Target framerate for count animation.
  * @property {'count' | 'slide'} [animation] - The animation type ('count' or 'slide').
  * @property {(value: number) => string} [formatFunction] - A custom format function.
+ * @property {string | string[]} [locale] - Locale(s) used to format the value through `Intl.NumberFormat`.
+ * @property {Intl.NumberFormatOptions} [numberFormat] - `Intl.NumberFormat` options, replaces `format` when set.
+ * @property {LightOdometerEasing} [easing] - The easing curve of the count animation and of the `js` slide driver.
+ * @property {'css' | 'js'} [slideDriver] - What moves the ribbons of the slide animation: theme CSS transitions ('css') or the odometer itself ('js').
+ * @property {string} [theme] - Name of a built-in ('minimal', 'train-station', 'car') or registered theme.
+ * @property {'auto' | 'always' | 'never'} [reducedMotion] - When to skip animations: following `prefers-reduced-motion` ('auto', default), always or never.
+ * @property {'jump' | 'crossfade'} [reducedMotionEffect] - What replaces animations when motion is reduced. Defaults to 'jump'.
+ * @property {'immediate' | 'visible'} [trigger] - When updates start animating: right away ('immediate', default) or once the odometer scrolls into view ('visible').
+ * @property {number} [visibleThreshold] - Ratio of the odometer that must be in view for the visible trigger. Defaults to 0.5.
+ * @property {boolean} [replay] - Whether the visible trigger replays the animation each time the odometer comes back into view.
+ * @property {boolean} [precise] - Whether values are kept as exact decimal strings instead of floats, for bigints and numbers beyond 2^53.
+ * @property {LightOdometerScheduler} [scheduler] - The clock and frame scheduler driving this instance's animations.
+ * @property {boolean} [hydrate] - Whether to adopt the markup rendered by `LightOdometer.renderToString()` instead of rendering again.
+ * @property {string} [prefix] - Text displayed before the value (i.e. '$'), outside of the minus sign.
+ * @property {string} [suffix] - Text displayed after the value (i.e. ' km').
+ * @property {'standard' | 'compact'} [notation] - Whether to display large values in full ('standard', default) or as a rounded mantissa followed by a unit (i.e. '1.2K').
+ * @property {string} [alphabet] - The symbols of the digits, from zero up (i.e. '0123456789ABCDEF'). Values are displayed as whole numbers in the base of its length, `locale`, `numberFormat` and `notation` are ignored.
+ * @property {string} [numberingSystem] - The numbering system whose glyphs display the digits, ribbons included (i.e. 'arab', 'deva', 'thai'). Defaults to the locale's one with `Intl.NumberFormat`.
+ * @property {'off' | 'polite' | 'assertive'} [ariaLive] - How screen readers announce the value once an animation is done. Defaults to 'off' (not announced).
+ * @property {boolean} [widthTransition] - Whether leading digits and grouping marks added or removed by a slide animation grow and shrink instead of appearing at once.
  */
 export interface LightOdometerOptions {
   el: HTMLElement;
 
   /** Optional identifier for this instance; propagated in event details */
   id?: string | number;
-  value?: string | number | null;
+  value?: LightOdometerValue | null;
   format?: string;
+  locale?: string | string[];
+  numberFormat?: Intl.NumberFormatOptions;
   duration?: number;
   framerate?: number;
   countFramerate?: number;
   animation?: "count" | "slide";
   formatFunction?: (value: number) => string;
+  easing?: LightOdometerEasing;
+  slideDriver?: "css" | "js";
+  theme?: string;
+  reducedMotion?: "auto" | "always" | "never";
+  reducedMotionEffect?: "jump" | "crossfade";
+  trigger?: "immediate" | "visible";
+  visibleThreshold?: number;
+  replay?: boolean;
+  precise?: boolean;
+  scheduler?: LightOdometerScheduler;
+  hydrate?: boolean;
+  prefix?: string;
+  suffix?: string;
+  notation?: "standard" | "compact";
+  alphabet?: string;
+  numberingSystem?: string;
+  ariaLive?: "off" | "polite" | "assertive";
+  widthTransition?: boolean;
 }
 
-export type LightOdometerEventName = "odometerstart" | "odometerdone"
+/**
+ * Time source and frame scheduler driving the animations, `performance.now()` and `requestAnimationFrame()` by default
+ * @property {() => number} now - Returns the current time in milliseconds.
+ * @property {(callback: FrameRequestCallback) => number} requestFrame - Schedules a callback for the next frame and returns its id.
+ * @property {(id: number) => void} cancelFrame - Cancels a scheduled frame callback.
+ */
+export interface LightOdometerScheduler {
+  now(): number;
+  requestFrame(callback: FrameRequestCallback): number;
+  cancelFrame(id: number): void;
+}
+
+/** A value accepted by the odometer: a number, a bigint or a (formatted) numeric string */
+export type LightOdometerValue = string | number | bigint
+
+/** A plain decimal string (i.e. '-1234.50'), used to carry exact values in `precise` mode */
+export type DecimalString = `${number}`
+
+/** Named easing presets */
+export type LightOdometerEasingName = "linear" | "easeIn" | "easeOut" | "easeInOut" | "easeInCubic" | "easeOutCubic" | "easeInOutCubic" | "easeOutQuart" | "easeOutExpo"
+
+/** An easing preset, the control points of a `cubic-bezier()` curve, or a function mapping the elapsed time ratio to the animation progress */
+export type LightOdometerEasing = LightOdometerEasingName | readonly [number, number, number, number] | ((progress: number) => number)
+
+/** Events dispatched on the odometer element, by name */
+export interface LightOdometerEventMap {
+  odometerstart: CustomEvent<LightOdometerEventDetail>;
+  odometerdone: CustomEvent<LightOdometerEventDetail>;
+  odometerinterrupt: CustomEvent<LightOdometerEventDetail>;
+  odometerlayout: CustomEvent<LightOdometerLayoutDetail>;
+  odometerframe: CustomEvent<LightOdometerFrameDetail>;
+  odometercancel: CustomEvent<LightOdometerCancelDetail>;
+  odometeroptionschange: CustomEvent<LightOdometerOptionsChangeDetail>;
+  odometerdestroy: CustomEvent<LightOdometerEventDetail>;
+  odometerpause: CustomEvent<LightOdometerFrameDetail>;
+  odometerresume: CustomEvent<LightOdometerFrameDetail>;
+  odometerseek: CustomEvent<LightOdometerFrameDetail>;
+  odometerset: CustomEvent<LightOdometerEventDetail>;
+  odometerhydrationmismatch: CustomEvent<LightOdometerHydrationDetail>;
+}
+
+export type LightOdometerEventName = keyof LightOdometerEventMap
+
+/** Why an animation stopped before reaching its value */
+export type LightOdometerCancelReason = "superseded" | "disconnected"
 
 export interface LightOdometerEventDetail {
   id?: string | number;
@@ -48,24 +135,216 @@ export interface LightOdometerEventDetail {
   /** Previous value before the animation (if available) */
   oldValue?: number;
 
+  /** Value on screen when an animation got interrupted by a newer update, or the rounded value shown by the compact notation */
+  displayedValue?: number;
+
+  /** Text shown by the odometer once the animation is done (i.e. '1.2K') */
+  formattedValue?: string;
+
+  /** Exact decimal string of `value` (`precise` mode only) */
+  exactValue?: string;
+
   /** Snapshot of instance options at the time of the event */
   options: LightOdometerOptions;
 }
 
+export interface LightOdometerLayoutDetail extends LightOdometerEventDetail {
+
+  /** Number of whole digits displayed once the animation is done */
+  digitCount: number;
+
+  /** Number of whole digits displayed before the animation */
+  oldDigitCount: number;
+}
+
+export interface LightOdometerFrameDetail extends LightOdometerEventDetail {
+
+  /** Elapsed time of the animation, as a ratio of its duration */
+  progress: number;
+
+  /** Value on screen during this frame */
+  displayedValue: number;
+}
+
+export interface LightOdometerCancelDetail extends LightOdometerEventDetail {
+
+  /** Why the animation stopped before reaching its value */
+  reason: LightOdometerCancelReason;
+}
+
+export interface LightOdometerOptionsChangeDetail extends LightOdometerEventDetail {
+
+  /** Options passed to `setOptions()` */
+  changedOptions: Partial<LightOdometerOptions>;
+
+  /** Snapshot of instance options before the change */
+  previousOptions: LightOdometerOptions;
+}
+
+export interface LightOdometerHydrationDetail extends LightOdometerEventDetail {
+
+  /** Markup the client renders for the value */
+  expectedHTML: string;
+
+  /** Markup found in the `odometer-inside` container, rendered again from scratch */
+  foundHTML: string;
+}
+
+export interface LightOdometerSetOptions {
+
+  /** Whether the value is animated like `update()` does (default), or displayed right away */
+  animate?: boolean;
+
+  /** Time the animation starts at on the scheduler's clock, a later one delays it (i.e. to animate in lockstep with other odometers) */
+  start?: number;
+}
+
+/**
+ * LightOdometerGroup config interface
+ * @property {number} [duration] - The duration of the animations in milliseconds, applied to every member. Defaults to the first member's.
+ * @property {number} [stagger] - Delay between the starts of two consecutive members in milliseconds. Defaults to 0.
+ * @property {HTMLElement} [el] - The element the group events are dispatched on (i.e. the scoreboard wrapping the odometers).
+ * @property {LightOdometerScheduler} [scheduler] - The clock the shared start time is read from. Defaults to the first member's scheduler.
+ */
+export interface LightOdometerGroupOptions {
+  duration?: number;
+  stagger?: number;
+  el?: HTMLElement;
+  scheduler?: LightOdometerScheduler;
+}
+
+/** Values of a group update: by member index, or by member `id`. Members without a value keep theirs */
+export type LightOdometerGroupValues = (LightOdometerValue | null | undefined)[] | Record<string, LightOdometerValue>
+
+/** Member of a group update along with the value it is updated to */
+export interface LightOdometerGroupEntry {
+  member: LightOdometer;
+  value: LightOdometerValue;
+}
+
+export interface LightOdometerGroupEventDetail {
+  group: LightOdometerGroup;
+
+  /** Members updated by the batch */
+  members: LightOdometer[];
+
+  /** Values the members are heading to, in the same order */
+  values: number[];
+
+  /** Time the first member starts animating at, on the group's scheduler clock */
+  start: number;
+
+  /** Duration of each member's animation in milliseconds */
+  duration: number;
+}
+
+export interface LightOdometerGroupEventMap {
+  odometergroupstart: CustomEvent<LightOdometerGroupEventDetail>;
+  odometergroupdone: CustomEvent<LightOdometerGroupEventDetail>;
+}
+
 /**
  * FormatObject interface
  * @property {string} repeating - The repeating part of the format. (i.e. '(,ddd)')
  * @property {string} [radix] - The radix separator. (i.e. '.')
  * @property {number} precision - The number of decimal places. (i.e. 'dd')
+ * @property {number} [scale] - Multiplier applied by `Intl.NumberFormat` before display. (i.e. 100 for percents)
+ * @property {string} [prefix] - Literal text before the value. (i.e. '$')
+ * @property {string} [suffix] - Literal text after the value. (i.e. ' km')
+ * @property {string} [alphabet] - The symbols of the digits, from zero up, when they aren't decimal. (i.e. '0123456789ABCDEF')
+ * @property {string[]} [numerals] - The glyphs of the digits 0 to 9, when they aren't Latin. (i.e. Arabic-Indic digits)
  */
 export interface FormatObject {
   repeating: string;
   radix?: string;
   precision: number;
+  scale?: number;
+  prefix?: string;
+  suffix?: string;
+  alphabet?: string;
+  numerals?: string[];
+}
+
+/**
+ * MarkupPart interface
+ * @property {string} value - The character(s) displayed.
+ * @property {boolean} digit - Whether the part is a digit or a formatting mark.
+ * @property {string} [className] - Additional classes of a formatting mark. (i.e. 'odometer-radix-mark')
+ */
+export interface MarkupPart {
+  value: string;
+  digit: boolean;
+  className?: string;
+}
+
+/**
+ * CompactValue interface
+ * @property {number | DecimalString} mantissa - The value divided by the unit, rounded to the format precision. (i.e. 1.2)
+ * @property {string} unit - The unit displayed after the mantissa. (i.e. 'K')
+ * @property {number} exponent - The power of ten of the unit. (i.e. 3)
+ */
+export interface CompactValue {
+  mantissa: number | DecimalString;
+  unit: string;
+  exponent: number;
+}
+
+/**
+ * AnimationState interface
+ * @property {number} from - The value the animation started from.
+ * @property {number} to - The value the animation is heading to.
+ * @property {number} start - Timestamp at which the animation started.
+ * @property {number} scale - Multiplier turning values into ribbon integers (slide animations only).
+ * @property {DecimalString} [exactFrom] - The exact value the animation started from (`precise` mode only).
+ * @property {number | DecimalString} [displayed] - The last value rendered on screen (count and reduced motion animations only).
+ * @property {boolean} [reduced] - Whether the animation was replaced because of reduced motion.
+ * @property {number} [exponent] - The power of ten of the compact unit the ribbons roll in (slide animations only).
+ * @property {boolean} [unitChanged] - Whether the compact unit changes during the animation (slide animations only).
+ * @property {boolean} [up] - Whether the ribbons roll up, towards larger absolute values (slide animations only).
+ * @property {number} [pausedAt] - Timestamp at which the animation got paused, while it is.
+ * @property {number} [position] - How far the ribbons moved by the `js` slide driver have travelled, between 0 (first value) and 1 (last value).
+ */
+export interface AnimationState {
+  from: number;
+  to: number;
+  start: number;
+  scale: number;
+  exactFrom?: DecimalString;
+  displayed?: number | DecimalString;
+  reduced?: boolean;
+  exponent?: number;
+  unitChanged?: boolean;
+  up?: boolean;
+  pausedAt?: number;
+  position?: number;
+}
+
+/**
+ * AnimationDriver interface, what moves the digits of the running animation
+ * @property {() => boolean} render - Displays the animation at its elapsed time, returns `false` if that ended it.
+ * @property {() => void} pause - Stops moving the digits, leaving them where they are.
+ * @property {() => void} resume - Moves the digits again, from the elapsed time.
+ */
+export interface AnimationDriver {
+  render(): boolean;
+  pause(): void;
+  resume(): void;
+}
+
+/**
+ * FrameTask interface, work run on every frame of the shared frame loop
+ * @property {() => void} [read] - Reads the DOM, before any task of the frame writes to it.
+ * @property {() => void} write - Writes to the DOM.
+ */
+export interface FrameTask {
+  read?(): void;
+  write(): void;
 }
 
 declare global {
   interface Window extends WindowOrWorkerGlobalScope { odometerOptions?: LightOdometerGlobalOptions }
 
   interface HTMLElement { odometer?: LightOdometer }
+
+  interface HTMLElementEventMap extends LightOdometerEventMap, LightOdometerGroupEventMap {}
 }
@@ -30,17 +30,41 @@ const FRAMES_PER_VALUE = 2
 // If more than one digit is hitting the frame limit, they would all get capped at that limit and appear to be moving at the same rate. This factor adds a boost to subsequent digits to make them appear faster.
 const DIGIT_SPEEDBOOST = 0.5
 
+// How long should we wait past the duration for a transitionend event before finishing the slide animation ourselves?
+const TRANSITION_END_TIMEOUT = 100
+
+// How long does the crossfade shown instead of an animation last when the user prefers reduced motion? It never exceeds the duration.
+const CROSSFADE_DURATION = 300
+
+// Which ratio of the odometer should be in view before a visible-triggered update starts animating?
+const VISIBLE_THRESHOLD = 0.5
+
+// How long does a frame of the manual scheduler last when no duration is given? Browsers usually paint at 60fps.
+const MANUAL_FRAME_INTERVAL: number = 1000 / 60
+
+// Which units does the compact notation use, for each power of 1000? Locales set through `locale` or `numberFormat` use their own.
+const COMPACT_UNITS: string[] = [ "", "K", "M", "B", "T" ]
+
+// Which symbols do digits use, from zero up? The `alphabet` option replaces them (i.e. '0123456789ABCDEF' for hexadecimal).
+const DIGIT_ALPHABET = "0123456789"
+
 const MS_PER_FRAME: number = 1000 / FRAMERATE
 const COUNT_MS_PER_FRAME: number = 1000 / COUNT_FRAMERATE
 
 export {
+  COMPACT_UNITS,
   COUNT_FRAMERATE,
   COUNT_MS_PER_FRAME,
+  CROSSFADE_DURATION,
+  DIGIT_ALPHABET,
   DIGIT_FORMAT,
   DIGIT_SPEEDBOOST,
   DURATION,
   FORMAT_PARSER,
   FRAMERATE,
   FRAMES_PER_VALUE,
+  MANUAL_FRAME_INTERVAL,
   MS_PER_FRAME,
+  TRANSITION_END_TIMEOUT,
+  VISIBLE_THRESHOLD,
 }
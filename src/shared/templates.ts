@@ -12,9 +12,14 @@ const DIGIT_HTML: string
 
 const FORMAT_MARK_HTML: string = "<span class=\"odometer-formatting-mark\"></span>"
 
+// Visually hidden, whatever the theme, but still read by screen readers
+const LABEL_HTML: string
+  = "<span class=\"odometer-label\" style=\"position: absolute; width: 1px; height: 1px; overflow: hidden; clip-path: inset(50%); white-space: nowrap;\"></span>"
+
 export {
   DIGIT_HTML,
   FORMAT_MARK_HTML,
+  LABEL_HTML,
   RIBBON_HTML,
   VALUE_HTML,
 }
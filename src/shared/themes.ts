@@ -0,0 +1,63 @@
+/* Built-in themes
+
+Each theme is scoped to `.odometer-theme-<name>` and only applies when the `theme` option is set.
+
+They all share the ribbon mechanics of the original HubSpot themes: the last value of a ribbon is absolutely positioned, so translating the ribbon by -100% reveals it. The transition length follows the `--odometer-duration` custom property.
+*/
+
+/**
+ * Builds the structural styles every built-in theme relies on.
+ * @param {string} theme - The theme selector, i.e. `.odometer-theme-minimal`.
+ * @returns {string} The structural CSS scoped to the theme.
+ */
+function ribbonCSS(theme: string): string {
+  return `
+.odometer${theme} { display: inline-block; vertical-align: middle; position: relative; font-variant-numeric: tabular-nums; }
+.odometer${theme} .odometer-digit { display: inline-block; vertical-align: middle; position: relative; }
+.odometer${theme} .odometer-digit-spacer { display: inline-block; vertical-align: middle; visibility: hidden; }
+.odometer${theme} .odometer-digit-inner { display: block; position: absolute; inset: 0; overflow: hidden; text-align: left; }
+.odometer${theme} .odometer-ribbon { display: block; }
+.odometer${theme} .odometer-ribbon-inner { display: block; backface-visibility: hidden; }
+.odometer${theme} .odometer-value { display: block; transform: translateZ(0); }
+.odometer${theme} .odometer-value.odometer-last-value { position: absolute; }
+.odometer${theme} .odometer-prefix, .odometer${theme} .odometer-suffix, .odometer${theme} .odometer-compact-mark { white-space: pre; }
+.odometer${theme} .odometer-compact-mark { display: inline-block; }
+.odometer${theme}.odometer-animating-up .odometer-ribbon-inner { transition: transform var(--odometer-duration, 2s); }
+.odometer${theme}.odometer-animating-up.odometer-animating .odometer-ribbon-inner { transform: translateY(-100%); }
+.odometer${theme}.odometer-animating-down .odometer-ribbon-inner { transform: translateY(-100%); }
+.odometer${theme}.odometer-animating-down.odometer-animating .odometer-ribbon-inner { transition: transform var(--odometer-duration, 2s); transform: translateY(0); }
+`
+}
+
+const MINIMAL_THEME: string = `${ribbonCSS(".odometer-theme-minimal")}
+.odometer.odometer-theme-minimal { line-height: 1.1em; }
+`
+
+const TRAIN_STATION_THEME: string = `${ribbonCSS(".odometer-theme-train-station")}
+.odometer.odometer-theme-train-station { font-family: "Helvetica Neue", Arial, sans-serif; line-height: 1.1em; color: #f5f5f0; }
+.odometer.odometer-theme-train-station .odometer-digit { margin: 0 0.05em; padding: 0 0.1em; border-radius: 0.12em; background: linear-gradient(#2b2b2b 50%, #1c1c1c 50%); box-shadow: inset 0 -1px 0 rgb(255 255 255 / 10%), 0 1px 2px rgb(0 0 0 / 40%); }
+.odometer.odometer-theme-train-station .odometer-digit-inner { left: 0.1em; right: 0.1em; }
+.odometer.odometer-theme-train-station .odometer-digit::after { content: ""; position: absolute; left: 0; right: 0; top: 50%; border-top: 1px solid rgb(0 0 0 / 60%); }
+.odometer.odometer-theme-train-station .odometer-formatting-mark { color: currentcolor; }
+`
+
+const CAR_THEME: string = `${ribbonCSS(".odometer-theme-car")}
+.odometer.odometer-theme-car { padding: 0.15em; border-radius: 0.2em; background: #000; font-family: "Courier New", monospace; line-height: 1.1em; color: #eee; }
+.odometer.odometer-theme-car .odometer-digit { padding: 0 0.15em; background: linear-gradient(#111, #3a3a3a 40%, #3a3a3a 60%, #111); }
+.odometer.odometer-theme-car .odometer-digit + .odometer-digit { border-left: 1px solid #000; }
+.odometer.odometer-theme-car .odometer-digit-inner { left: 0.15em; right: 0.15em; }
+.odometer.odometer-theme-car .odometer-radix-mark ~ .odometer-digit { background: linear-gradient(#ddd, #fff 40%, #fff 60%, #ddd); color: #111; }
+`
+
+const THEMES: Record<string, string> = {
+  "minimal": MINIMAL_THEME,
+  "train-station": TRAIN_STATION_THEME,
+  "car": CAR_THEME,
+}
+
+export {
+  CAR_THEME,
+  MINIMAL_THEME,
+  THEMES,
+  TRAIN_STATION_THEME,
+}
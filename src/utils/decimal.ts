@@ -0,0 +1,157 @@
+import type { DecimalString } from "../shared/interfaces"
+
+// sign, whole digits, fractional digits, exponent (i.e. '-1234.5e-3')
+const DECIMAL_PARSER = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?/i
+
+/**
+ * Checks whether a string is a plain decimal number, as produced by `formatDecimal()`.
+ * Such strings can be handed to `Intl.NumberFormat` without losing precision.
+ * @param {string} value - The string to check.
+ * @returns {boolean} `true` if the string only contains an optional minus sign, digits and an optional fractional part.
+ */
+function isDecimalString(value: string): value is DecimalString {
+  return (/^-?\d+(?:\.\d+)?$/).test(value)
+}
+
+/**
+ * Parses a decimal string into an integer holding the given amount of fractional digits, without going through floats.
+ * Extra digits are rounded half towards positive infinity, the same way `round()` does.
+ * @param {string} value - The decimal string to parse, exponents are supported (i.e. '1.5e3').
+ * @param {number} digits - The number of fractional digits to keep.
+ * @returns {bigint} The value multiplied by `10 ** digits`, or `0n` if the string doesn't start with a number.
+ */
+function parseDecimal(value: string, digits: number): bigint {
+  const [, sign = "", whole = "", fraction = "", exponent = "0"] = DECIMAL_PARSER.exec(value.trim()) ?? []
+  const allDigits = `${whole}${fraction}`
+
+  if (!allDigits) {
+    return 0n
+  }
+
+  // Where the decimal point lands once the value is scaled
+  const point = whole.length + digits + parseInt(exponent, 10)
+  let integer = allDigits
+  let rest = ""
+
+  if (point <= 0) {
+    integer = ""
+    rest = `${"0".repeat(-point)}${allDigits}`
+  } else if (point < allDigits.length) {
+    integer = allDigits.slice(0, point)
+    rest = allDigits.slice(point)
+  } else {
+    integer += "0".repeat(point - allDigits.length)
+  }
+
+  const negative = sign === "-"
+  let scaled = BigInt(integer || "0")
+
+  // Negative halves round towards zero, positive ones away from it
+  const roundUp = negative
+    ? (/^(?:[6-9]|5\d*[1-9])/).test(rest)
+    : (/^[5-9]/).test(rest)
+
+  if (roundUp) {
+    scaled++
+  }
+
+  return negative
+    ? -scaled
+    : scaled
+}
+
+/**
+ * Formats an integer holding the given amount of fractional digits back into a decimal string.
+ * Trailing zeros are kept so the string always has `digits` fractional digits.
+ * @param {bigint} value - The scaled integer, as returned by `parseDecimal()`.
+ * @param {number} digits - The number of fractional digits held by the integer.
+ * @returns {DecimalString} The decimal string (i.e. '-12.50').
+ */
+function formatDecimal(value: bigint, digits: number): DecimalString {
+  const negative = value < 0n
+  const magnitude = absolute(value)
+    .toString()
+    .padStart(digits + 1, "0")
+  const whole = magnitude.slice(0, magnitude.length - digits)
+  const fraction = digits
+    ? `.${magnitude.slice(magnitude.length - digits)}`
+    : ""
+  const text = `${negative
+    ? "-"
+    : ""}${whole}${fraction}`
+
+  return isDecimalString(text)
+    ? text
+    : "0"
+}
+
+/**
+ * Returns the absolute value of a bigint.
+ * @param {bigint} value - The bigint.
+ * @returns {bigint} The absolute value.
+ */
+function absolute(value: bigint): bigint {
+  return value < 0n
+    ? -value
+    : value
+}
+
+/**
+ * Divides two bigints, rounding the quotient half towards positive infinity instead of truncating it.
+ * @param {bigint} dividend - The dividend.
+ * @param {bigint} divisor - The divisor, must not be zero.
+ * @returns {bigint} The rounded quotient.
+ */
+function divideRounded(dividend: bigint, divisor: bigint): bigint {
+  const numerator = (dividend * 2n) + divisor
+  const denominator = divisor * 2n
+  const quotient = numerator / denominator
+
+  // BigInt division truncates towards zero, negative quotients need to be floored
+  if (numerator % denominator !== 0n && (numerator < 0n) !== (denominator < 0n)) {
+    return quotient - 1n
+  }
+
+  return quotient
+}
+
+/**
+ * Calculates the number of digits in the largest absolute value from the provided bigints.
+ * @param {bigint[]} values - A list of bigints to evaluate.
+ * @param {bigint} [base] - The base the values are written in. Defaults to 10.
+ * @returns {number} The number of digits in the largest absolute value, `0` if all values are zero.
+ */
+function countDigits(values: bigint[], base: bigint = 10n): number {
+  let count = 0
+
+  for (const value of values) {
+    if (!value) {
+      continue
+    }
+
+    if (base === 10n) {
+      count = Math.max(count, absolute(value).toString().length)
+
+      continue
+    }
+
+    let length = 0
+
+    for (let rest = absolute(value); rest; rest /= base) {
+      length++
+    }
+
+    count = Math.max(count, length)
+  }
+
+  return count
+}
+
+export {
+  absolute,
+  countDigits,
+  divideRounded,
+  formatDecimal,
+  isDecimalString,
+  parseDecimal,
+}
@@ -0,0 +1,129 @@
+import type {
+  LightOdometerEasing,
+  LightOdometerEasingName,
+} from "../shared/interfaces"
+
+/**
+ * Creates an easing function from the control points of a CSS `cubic-bezier()` curve.
+ * The curve is solved for `x` with Newton's method, falling back to bisection when the slope is too flat.
+ * @param {number} x1 - The x coordinate of the first control point, between 0 and 1.
+ * @param {number} y1 - The y coordinate of the first control point.
+ * @param {number} x2 - The x coordinate of the second control point, between 0 and 1.
+ * @param {number} y2 - The y coordinate of the second control point.
+ * @returns {(progress: number) => number} The easing function.
+ * @throws {Error} If an x coordinate is outside of the [0, 1] range.
+ */
+function cubicBezier(x1: number, y1: number, x2: number, y2: number): (progress: number) => number {
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+    throw new Error("LightOdometer: cubic-bezier x values must be between 0 and 1")
+  }
+
+  const cx = 3 * x1
+  const bx = (3 * (x2 - x1)) - cx
+  const ax = 1 - cx - bx
+  const cy = 3 * y1
+  const by = (3 * (y2 - y1)) - cy
+  const ay = 1 - cy - by
+
+  const sampleX = (t: number) => ((((ax * t) + bx) * t) + cx) * t
+  const sampleY = (t: number) => ((((ay * t) + by) * t) + cy) * t
+  const sampleSlopeX = (t: number) => (((3 * ax * t) + (2 * bx)) * t) + cx
+
+  const solveX = (x: number) => {
+    let t = x
+
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(t) - x
+
+      if (Math.abs(error) < 1e-6) {
+        return t
+      }
+
+      const slope = sampleSlopeX(t)
+
+      if (Math.abs(slope) < 1e-6) {
+        break
+      }
+
+      t -= error / slope
+    }
+
+    let low = 0
+    let high = 1
+
+    t = x
+
+    for (let i = 0; i < 32 && high - low > 1e-6; i++) {
+      if (sampleX(t) < x) {
+        low = t
+      } else {
+        high = t
+      }
+
+      t = (low + high) / 2
+    }
+
+    return t
+  }
+
+  return (progress: number) => {
+    if (progress <= 0) {
+      return 0
+    }
+
+    if (progress >= 1) {
+      return 1
+    }
+
+    return sampleY(solveX(progress))
+  }
+}
+
+const EASINGS: Record<LightOdometerEasingName, (progress: number) => number> = {
+  linear: (progress) => progress,
+  easeIn: cubicBezier(0.42, 0, 1, 1),
+  easeOut: cubicBezier(0, 0, 0.58, 1),
+  easeInOut: cubicBezier(0.42, 0, 0.58, 1),
+  easeInCubic: (progress) => progress ** 3,
+  easeOutCubic: (progress) => 1 - ((1 - progress) ** 3),
+  easeInOutCubic: (progress) => (progress < 0.5
+    ? 4 * (progress ** 3)
+    : 1 - (((-2 * progress) + 2) ** 3 / 2)),
+  easeOutQuart: (progress) => 1 - ((1 - progress) ** 4),
+  easeOutExpo: (progress) => (progress >= 1
+    ? 1
+    : 1 - (2 ** (-10 * progress))),
+}
+
+/**
+ * Turns an easing option into an easing function.
+ * Accepts a preset name, a cubic-bezier control points tuple or a custom function.
+ * @param {LightOdometerEasing} [easing="linear"] - The easing to resolve. Defaults to `linear`.
+ * @returns {(progress: number) => number} A function mapping the elapsed time ratio to the animation progress.
+ * @throws {Error} If the preset name is unknown.
+ */
+function resolveEasing(easing?: LightOdometerEasing): (progress: number) => number {
+  easing ??= "linear"
+
+  if (typeof easing === "function") {
+    return easing
+  }
+
+  if (typeof easing !== "string") {
+    return cubicBezier(...easing)
+  }
+
+  const preset = EASINGS[easing]
+
+  if (!preset) {
+    throw new Error(`LightOdometer: Unknown easing "${easing}"`)
+  }
+
+  return preset
+}
+
+export {
+  cubicBezier,
+  EASINGS,
+  resolveEasing,
+}
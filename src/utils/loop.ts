@@ -0,0 +1,112 @@
+import type {
+  FrameTask,
+  LightOdometerScheduler,
+} from "../shared/interfaces"
+
+/** One loop per scheduler, so instances stepped by a manual scheduler don't share frames with the browser's */
+const LOOPS: WeakMap<LightOdometerScheduler, FrameLoop> = new WeakMap()
+
+/**
+ * A single frame loop running the tasks of every animating instance.
+ * Each frame, every task reads the DOM before any of them writes to it, so the layout is computed at most once per frame.
+ * The loop only requests frames while it has tasks.
+ */
+export class FrameLoop {
+  private _scheduler: LightOdometerScheduler
+  private _tasks: Set<FrameTask> = new Set()
+  private _frameId?: number
+  private _running: boolean = false
+  private _onFrame = () => {
+    this.frame()
+  }
+
+  /**
+   * Creates a frame loop.
+   * @param {LightOdometerScheduler} scheduler - The scheduler requesting the frames.
+   */
+  constructor(scheduler: LightOdometerScheduler) {
+    this._scheduler = scheduler
+  }
+
+  /** Number of tasks run on every frame */
+  get size(): number {
+    return this._tasks.size
+  }
+
+  /**
+   * Runs a task on every frame, from the next one on, until it is removed.
+   * @param {FrameTask} task - The task to run.
+   * @returns {void}
+   */
+  add(task: FrameTask): void {
+    this._tasks.add(task)
+
+    // Frames requested while running are requested once the frame is over
+    if (!this._running && this._frameId === undefined) {
+      this._frameId = this._scheduler.requestFrame(this._onFrame)
+    }
+  }
+
+  /**
+   * Stops running a task, and stops requesting frames when no task is left.
+   * @param {FrameTask} task - The task to remove.
+   * @returns {void}
+   */
+  delete(task: FrameTask): void {
+    this._tasks.delete(task)
+
+    if (!this._tasks.size && this._frameId !== undefined) {
+      this._scheduler.cancelFrame(this._frameId)
+      this._frameId = undefined
+    }
+  }
+
+  /**
+   * Runs the reads then the writes of the tasks, skipping the ones removed in between.
+   * @returns {void}
+   */
+  frame(): void {
+    const tasks = Array.from(this._tasks)
+
+    this._frameId = undefined
+    this._running = true
+
+    try {
+      for (const task of tasks) {
+        if (this._tasks.has(task)) {
+          task.read?.()
+        }
+      }
+
+      for (const task of tasks) {
+        if (this._tasks.has(task)) {
+          task.write()
+        }
+      }
+    } finally {
+      this._running = false
+
+      if (this._tasks.size) {
+        this._frameId = this._scheduler.requestFrame(this._onFrame)
+      }
+    }
+  }
+}
+
+/**
+ * Gets the frame loop shared by the instances using a scheduler, creating it on first use.
+ * @param {LightOdometerScheduler} scheduler - The scheduler of the instances.
+ * @returns {FrameLoop} The shared frame loop.
+ */
+function getFrameLoop(scheduler: LightOdometerScheduler): FrameLoop {
+  let loop = LOOPS.get(scheduler)
+
+  if (!loop) {
+    loop = new FrameLoop(scheduler)
+    LOOPS.set(scheduler, loop)
+  }
+
+  return loop
+}
+
+export { getFrameLoop }
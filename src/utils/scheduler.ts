@@ -0,0 +1,130 @@
+import type { LightOdometerScheduler } from "../shared/interfaces"
+
+import { MANUAL_FRAME_INTERVAL } from "../shared/settings"
+
+import {
+  now,
+  safeCancelRaf,
+  safeRaf,
+} from "./utilities"
+
+/** The default scheduler, backed by `performance.now()` and `requestAnimationFrame()` with their SSR-safe fallbacks */
+const BROWSER_SCHEDULER: LightOdometerScheduler = {
+  now,
+  requestFrame: safeRaf,
+  cancelFrame: safeCancelRaf,
+}
+
+/**
+ * A scheduler whose time only moves when told to, so animations can be stepped through frame by frame.
+ * Frame callbacks are queued until `frame()`, `advance()` or `flush()` runs them.
+ */
+export class LightOdometerManualScheduler implements LightOdometerScheduler {
+  private _time: number
+  private _nextId: number = 1
+  private _frames: Map<number, FrameRequestCallback> = new Map()
+
+  /**
+   * Creates a manual scheduler.
+   * @param {number} [startTime=0] - The initial time of the clock in milliseconds.
+   */
+  constructor(startTime: number = 0) {
+    this._time = startTime
+  }
+
+  /** Number of frame callbacks waiting for the next frame */
+  get pendingFrames(): number {
+    return this._frames.size
+  }
+
+  /**
+   * Returns the current time of the virtual clock.
+   * @returns {number} The current time in milliseconds.
+   */
+  now(): number {
+    return this._time
+  }
+
+  /**
+   * Queues a callback for the next frame.
+   * @param {FrameRequestCallback} callback - The callback to run.
+   * @returns {number} The id of the queued callback.
+   */
+  requestFrame(callback: FrameRequestCallback): number {
+    const id = this._nextId++
+
+    this._frames.set(id, callback)
+
+    return id
+  }
+
+  /**
+   * Removes a queued callback.
+   * @param {number} id - The id returned by `requestFrame()`.
+   * @returns {void}
+   */
+  cancelFrame(id: number): void {
+    this._frames.delete(id)
+  }
+
+  /**
+   * Moves the clock forward and runs the callbacks queued so far.
+   * Callbacks queued while running wait for the next frame, like with `requestAnimationFrame()`.
+   * @param {number} [elapsed] - How long the frame lasts in milliseconds. Defaults to a 60fps frame.
+   * @returns {number} The number of callbacks that ran.
+   */
+  frame(elapsed: number = MANUAL_FRAME_INTERVAL): number {
+    this._time += elapsed
+
+    const frames = Array.from(this._frames.values())
+
+    this._frames.clear()
+
+    for (const callback of frames) {
+      callback(this._time)
+    }
+
+    return frames.length
+  }
+
+  /**
+   * Moves the clock forward by a duration, running a frame at every interval.
+   * @param {number} duration - How long to advance in milliseconds.
+   * @param {number} [interval] - How long each frame lasts in milliseconds. Defaults to a 60fps frame.
+   * @returns {void}
+   */
+  advance(duration: number, interval: number = MANUAL_FRAME_INTERVAL): void {
+    let remaining = duration
+
+    while (remaining > 0) {
+      const elapsed = Math.min(interval, remaining)
+
+      this.frame(elapsed)
+      remaining -= elapsed
+    }
+  }
+
+  /**
+   * Runs frames until no callback is queued anymore, so every running animation finishes.
+   * @param {number} [interval] - How long each frame lasts in milliseconds. Defaults to a 60fps frame.
+   * @param {number} [maxFrames=10000] - How many frames can run before giving up.
+   * @returns {number} The number of frames that ran.
+   * @throws {Error} If callbacks are still queued after `maxFrames` frames.
+   */
+  flush(interval: number = MANUAL_FRAME_INTERVAL, maxFrames: number = 10_000): number {
+    let count = 0
+
+    while (this._frames.size) {
+      if (count >= maxFrames) {
+        throw new Error(`LightOdometer: frames are still scheduled after ${maxFrames} frames`)
+      }
+
+      this.frame(interval)
+      count++
+    }
+
+    return count
+  }
+}
+
+export { BROWSER_SCHEDULER }
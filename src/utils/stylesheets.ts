@@ -0,0 +1,76 @@
+/** Styles already adopted by each document or shadow root, keyed by id */
+const ADOPTED = new WeakMap<Document | ShadowRoot, Map<string, { css: string; sheet: CSSStyleSheet | HTMLStyleElement }>>()
+
+/**
+ * Checks whether constructable stylesheets can be adopted by the given root.
+ * @param {Document | ShadowRoot} root - The document or shadow root to check.
+ * @returns {boolean} `true` if `adoptedStyleSheets` and `CSSStyleSheet.replaceSync()` are supported.
+ */
+function supportsAdoptedStyleSheets(root: Document | ShadowRoot): boolean {
+  return "adoptedStyleSheets" in root
+    && typeof CSSStyleSheet === "function"
+    && "replaceSync" in CSSStyleSheet.prototype
+}
+
+/**
+ * Adds a stylesheet to a document or shadow root, once per root and id.
+ * Uses a constructable stylesheet when supported, falls back to a `<style>` element otherwise.
+ * If the id was already adopted with different CSS, the existing sheet is updated in place.
+ * @param {Document | ShadowRoot} root - The document or shadow root to add the styles to.
+ * @param {string} id - A unique identifier for the stylesheet.
+ * @param {string} css - The CSS text.
+ * @returns {void}
+ */
+function adoptStyles(root: Document | ShadowRoot, id: string, css: string): void {
+  let adopted = ADOPTED.get(root)
+
+  if (!adopted) {
+    adopted = new Map()
+    ADOPTED.set(root, adopted)
+  }
+
+  const existing = adopted.get(id)
+
+  if (existing) {
+    if (existing.css !== css) {
+      if (existing.sheet instanceof HTMLStyleElement) {
+        existing.sheet.textContent = css
+      } else {
+        existing.sheet.replaceSync(css)
+      }
+
+      existing.css = css
+    }
+
+    return
+  }
+
+  if (supportsAdoptedStyleSheets(root)) {
+    const sheet = new CSSStyleSheet()
+
+    sheet.replaceSync(css)
+    root.adoptedStyleSheets = [ ...root.adoptedStyleSheets, sheet ]
+    adopted.set(id, {
+      css, sheet,
+    })
+
+    return
+  }
+
+  const style = document.createElement("style")
+  const parent = root instanceof ShadowRoot
+    ? root
+    : document.head
+
+  style.setAttribute("data-light-odometer", id)
+  style.textContent = css
+  parent.appendChild(style)
+  adopted.set(id, {
+    css, sheet: style,
+  })
+}
+
+export {
+  adoptStyles,
+  supportsAdoptedStyleSheets,
+}
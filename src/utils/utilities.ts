@@ -1,5 +1,8 @@
 import type { LightOdometer } from "../core/odometer"
-import type { LightOdometerEventDetail } from "../shared/interfaces"
+import type {
+  LightOdometerEventMap,
+  LightOdometerEventName,
+} from "../shared/interfaces"
 
 /**
  * Creates an HTML element from the given HTML string.
@@ -59,9 +62,10 @@ function addClass(el: HTMLElement, name: string): string {
 /**
  * Triggers a custom DOM event on the specified element.
  * @param {HTMLElement} el - The element on which to dispatch the event.
- * @param {string} name - The name of the event to trigger.
+ * @param {LightOdometerEventName} name - The name of the event to trigger.
+ * @param {LightOdometerEventDetail} detail - The event detail, extended with the fields specific to the event.
  */
-function trigger(el: HTMLElement, name: string, detail?: LightOdometerEventDetail): void {
+function trigger<K extends LightOdometerEventName>(el: HTMLElement, name: K, detail: LightOdometerEventMap[K]["detail"]): void {
   const evt = new CustomEvent(name, {
     bubbles: true, cancelable: true, detail,
   })